@@ -0,0 +1,79 @@
+import { CacheStorageEntry } from '../interfaces/cache-storage-entry.interface';
+
+/**
+ * Contract for the storage backends used by the cache.
+ * Extend this class to provide a custom storage backend.
+ */
+export abstract class CacheStorageAdapter {
+    /**
+     * Whether Blob and ArrayBuffer values can be stored as is (e.g. with structured clone).
+     * Binary values are encoded as base64 when it is false.
+     */
+    public get supportsBinary(): boolean {
+        return false;
+    }
+
+    /**
+     * Prepares the storage, it is called once when the cache is loaded.
+     */
+    public abstract create(): Promise<void>;
+
+    /**
+     * Gets the value stored under the key.
+     * @param key The storage key
+     * @returns A promise which resolves with the value or null if it doesn't exist.
+     */
+    public abstract get(key: string): Promise<any>;
+
+    /**
+     * Stores the value under the key.
+     * @param key The storage key
+     * @param value The value to store
+     */
+    public abstract set(key: string, value: any): Promise<void>;
+
+    /**
+     * Removes the value stored under the key.
+     * @param key The storage key
+     */
+    public abstract remove(key: string): Promise<void>;
+
+    /**
+     * Checks if a value is stored under the key.
+     * @param key The storage key
+     */
+    public abstract exists(key: string): Promise<boolean>;
+
+    /**
+     * Gets all the entries in the storage.
+     */
+    public abstract all(): Promise<CacheStorageEntry[]>;
+
+    /**
+     * Gets the values stored under the keys.
+     * Override it when the backend supports bulk reads.
+     * @param keys The storage keys
+     * @returns A promise which resolves with the values, in the order of the keys, null for missing keys.
+     */
+    public getMany(keys: string[]): Promise<any[]> {
+        return Promise.all(keys.map((key) => this.get(key)));
+    }
+
+    /**
+     * Stores the entries.
+     * Override it when the backend supports bulk writes.
+     * @param entries The entries to store
+     */
+    public async setMany(entries: CacheStorageEntry[]): Promise<void> {
+        await Promise.all(entries.map((entry) => this.set(entry.key, entry.value)));
+    }
+
+    /**
+     * Removes the values stored under the keys.
+     * Override it when the backend supports bulk removals.
+     * @param keys The storage keys
+     */
+    public async removeMany(keys: string[]): Promise<void> {
+        await Promise.all(keys.map((key) => this.remove(key)));
+    }
+}
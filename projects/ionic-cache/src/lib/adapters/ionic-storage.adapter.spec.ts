@@ -0,0 +1,38 @@
+import { Drivers } from '@ionic/storage';
+import { IonicStorageAdapter } from './ionic-storage.adapter';
+
+describe('IonicStorageAdapter', () => {
+    let adapter: IonicStorageAdapter;
+
+    beforeEach(() => {
+        localStorage.clear();
+        adapter = new IonicStorageAdapter();
+    });
+
+    describe('create', () => {
+        beforeEach(() => {
+            return adapter.create();
+        });
+
+        it('should fall back to localStorage when IndexedDB is not available', () => {
+            expect(adapter['storage'].driver).toBe(Drivers.LocalStorage);
+        });
+
+        it('should store the values', async () => {
+            await adapter.set('key', { value: 'data' });
+            expect(await adapter.get('key')).toEqual({ value: 'data' });
+        });
+    });
+
+    describe('supportsBinary', () => {
+        it('should support binary values with the IndexedDB driver', () => {
+            jest.spyOn(adapter['storage'], 'driver', 'get').mockReturnValue(Drivers.IndexedDB);
+            expect(adapter.supportsBinary).toBe(true);
+        });
+
+        it('should not support binary values with the localStorage driver', async () => {
+            await adapter.create();
+            expect(adapter.supportsBinary).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,58 @@
+import { Drivers } from '@ionic/storage';
+import { Storage, StorageConfig } from '@ionic/storage-angular';
+import { CacheStorageEntry } from '../interfaces/cache-storage-entry.interface';
+import { CacheStorageAdapter } from './cache-storage.adapter';
+
+/**
+ * Stores the cache using Ionic Storage, which supports IndexedDB and localStorage.
+ * Ionic Storage has no bulk operations, so batch operations still make one storage call per key.
+ */
+export class IonicStorageAdapter extends CacheStorageAdapter {
+    private storage: Storage;
+
+    /**
+     * @param storageConfig The Ionic Storage options, merged with the default database name and driver order
+     */
+    constructor(storageConfig: StorageConfig = {}) {
+        super();
+        this.storage = new Storage({
+            name: '__ionicCache',
+            driverOrder: [Drivers.IndexedDB, Drivers.LocalStorage],
+            ...storageConfig
+        });
+    }
+
+    public get supportsBinary(): boolean {
+        // The other drivers encode binary values themselves.
+        return this.storage.driver === Drivers.IndexedDB;
+    }
+
+    public async create(): Promise<void> {
+        await this.storage.create();
+    }
+
+    public get(key: string): Promise<any> {
+        return this.storage.get(key);
+    }
+
+    public set(key: string, value: any): Promise<void> {
+        return this.storage.set(key, value);
+    }
+
+    public remove(key: string): Promise<void> {
+        return this.storage.remove(key);
+    }
+
+    public async exists(key: string): Promise<boolean> {
+        return !!(await this.storage.get(key));
+    }
+
+    public async all(): Promise<CacheStorageEntry[]> {
+        const entries: CacheStorageEntry[] = [];
+        await this.storage.forEach((value: any, key: string) => {
+            entries.push({ key, value });
+        });
+
+        return entries;
+    }
+}
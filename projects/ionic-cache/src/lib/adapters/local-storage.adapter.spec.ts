@@ -0,0 +1,59 @@
+import { LocalStorageAdapter } from './local-storage.adapter';
+
+describe('LocalStorageAdapter', () => {
+    let adapter: LocalStorageAdapter;
+
+    beforeEach(async () => {
+        localStorage.clear();
+        adapter = new LocalStorageAdapter('cache');
+        await adapter.create();
+    });
+
+    describe('set', () => {
+        beforeEach(() => {
+            return adapter.set('key', { value: 'data' });
+        });
+
+        it('should store the json string under the prefixed key', () => {
+            expect(localStorage.getItem('cache:key')).toBe(JSON.stringify({ value: 'data' }));
+        });
+
+        it('should return the parsed value', async () => {
+            expect(await adapter.get('key')).toEqual({ value: 'data' });
+        });
+    });
+
+    describe('get', () => {
+        it('should return null when the key does not exist', async () => {
+            expect(await adapter.get('key')).toBeNull();
+        });
+    });
+
+    describe('remove', () => {
+        beforeEach(async () => {
+            await adapter.set('key', { value: 'data' });
+            return adapter.remove('key');
+        });
+
+        it('should remove the value', async () => {
+            expect(await adapter.exists('key')).toBe(false);
+        });
+    });
+
+    describe('all', () => {
+        beforeEach(async () => {
+            await adapter.set('first', 1);
+            localStorage.setItem('other', '2');
+        });
+
+        it('should only return the entries of the database', async () => {
+            expect(await adapter.all()).toEqual([{ key: 'first', value: 1 }]);
+        });
+    });
+
+    describe('supportsBinary', () => {
+        it('should be false', () => {
+            expect(adapter.supportsBinary).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,56 @@
+import { CacheStorageEntry } from '../interfaces/cache-storage-entry.interface';
+import { CacheStorageAdapter } from './cache-storage.adapter';
+
+/**
+ * Stores the cache in window.localStorage.
+ * Every key is prefixed with the database name, so multiple caches can share the same origin.
+ */
+export class LocalStorageAdapter extends CacheStorageAdapter {
+    constructor(private name: string = '__ionicCache') {
+        super();
+    }
+
+    public async create(): Promise<void> {
+        if (typeof localStorage === 'undefined') {
+            throw new Error('localStorage is not available.');
+        }
+    }
+
+    public async get(key: string): Promise<any> {
+        const value = localStorage.getItem(this.buildKey(key));
+        return value === null ? null : JSON.parse(value);
+    }
+
+    public async set(key: string, value: any): Promise<void> {
+        localStorage.setItem(this.buildKey(key), JSON.stringify(value));
+    }
+
+    public async remove(key: string): Promise<void> {
+        localStorage.removeItem(this.buildKey(key));
+    }
+
+    public async exists(key: string): Promise<boolean> {
+        return localStorage.getItem(this.buildKey(key)) !== null;
+    }
+
+    public async all(): Promise<CacheStorageEntry[]> {
+        const prefix = this.buildKey('');
+        const entries: CacheStorageEntry[] = [];
+
+        for (let i = 0; i < localStorage.length; i++) {
+            const key = localStorage.key(i);
+            if (key && key.startsWith(prefix)) {
+                entries.push({ key: key.substr(prefix.length), value: JSON.parse(localStorage.getItem(key)) });
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * Prefixes the key with the database name
+     */
+    private buildKey(key: string): string {
+        return `${this.name}:${key}`;
+    }
+}
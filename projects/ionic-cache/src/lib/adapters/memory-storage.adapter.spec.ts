@@ -0,0 +1,79 @@
+import { MemoryStorageAdapter } from './memory-storage.adapter';
+
+describe('MemoryStorageAdapter', () => {
+    let adapter: MemoryStorageAdapter;
+
+    beforeEach(async () => {
+        adapter = new MemoryStorageAdapter();
+        await adapter.create();
+    });
+
+    describe('set', () => {
+        beforeEach(() => {
+            return adapter.set('key', { value: 'data' });
+        });
+
+        it('should store the value', async () => {
+            expect(await adapter.get('key')).toEqual({ value: 'data' });
+        });
+
+        it('should mark the key as existing', async () => {
+            expect(await adapter.exists('key')).toBe(true);
+        });
+    });
+
+    describe('get', () => {
+        it('should return null when the key does not exist', async () => {
+            expect(await adapter.get('key')).toBeNull();
+        });
+    });
+
+    describe('remove', () => {
+        beforeEach(async () => {
+            await adapter.set('key', { value: 'data' });
+            return adapter.remove('key');
+        });
+
+        it('should remove the value', async () => {
+            expect(await adapter.exists('key')).toBe(false);
+        });
+    });
+
+    describe('all', () => {
+        beforeEach(async () => {
+            await adapter.set('first', 1);
+            await adapter.set('second', 2);
+        });
+
+        it('should return all the entries', async () => {
+            expect(await adapter.all()).toEqual([
+                { key: 'first', value: 1 },
+                { key: 'second', value: 2 }
+            ]);
+        });
+    });
+
+    describe('batch operations', () => {
+        beforeEach(() => {
+            return adapter.setMany([
+                { key: 'first', value: 1 },
+                { key: 'second', value: 2 }
+            ]);
+        });
+
+        it('should get the values in the order of the keys', async () => {
+            expect(await adapter.getMany(['second', 'missing', 'first'])).toEqual([2, null, 1]);
+        });
+
+        it('should remove the values', async () => {
+            await adapter.removeMany(['first', 'second']);
+            expect(await adapter.all()).toEqual([]);
+        });
+    });
+
+    describe('supportsBinary', () => {
+        it('should be true', () => {
+            expect(adapter.supportsBinary).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,35 @@
+import { CacheStorageEntry } from '../interfaces/cache-storage-entry.interface';
+import { CacheStorageAdapter } from './cache-storage.adapter';
+
+/**
+ * Keeps the cache in memory, the cache is lost when the app is reloaded.
+ */
+export class MemoryStorageAdapter extends CacheStorageAdapter {
+    private entries = new Map<string, any>();
+
+    public get supportsBinary(): boolean {
+        return true;
+    }
+
+    public async create(): Promise<void> {}
+
+    public async get(key: string): Promise<any> {
+        return this.entries.has(key) ? this.entries.get(key) : null;
+    }
+
+    public async set(key: string, value: any): Promise<void> {
+        this.entries.set(key, value);
+    }
+
+    public async remove(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    public async exists(key: string): Promise<boolean> {
+        return this.entries.has(key);
+    }
+
+    public async all(): Promise<CacheStorageEntry[]> {
+        return Array.from(this.entries.entries()).map(([key, value]) => ({ key, value }));
+    }
+}
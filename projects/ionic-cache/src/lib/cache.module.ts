@@ -1,32 +1,16 @@
-import { NgModule, ModuleWithProviders, InjectionToken } from '@angular/core';
-import { CacheService } from './services/cache/cache.service';
-import { IonicStorageModule } from '@ionic/storage-angular';
-import { defaultConfig } from './constants/default-config.contant';
+import { NgModule, ModuleWithProviders } from '@angular/core';
 import { CacheConfig } from './interfaces/cache-config.interface';
-import { CacheStorageService } from './services/cache-storage/cache-storage.service';
+import { CONFIG } from './constants/config-token.constant';
+import { provideIonicCache } from './provide-ionic-cache';
 
-export const CONFIG = new InjectionToken<CacheConfig>('CONFIG');
+export { CONFIG };
 
-@NgModule({
-    imports: [
-        IonicStorageModule.forRoot({
-            name: '__ionicCache',
-            driverOrder: ['indexeddb', 'sqlite', 'websql']
-        })
-    ]
-})
+@NgModule({})
 export class CacheModule {
     static forRoot(cacheConfig?: CacheConfig): ModuleWithProviders<CacheModule> {
         return {
             ngModule: CacheModule,
-            providers: [
-                {
-                    provide: CONFIG,
-                    useValue: { ...defaultConfig, ...cacheConfig }
-                },
-                CacheStorageService,
-                CacheService
-            ]
+            providers: provideIonicCache(cacheConfig)
         };
     }
 }
@@ -0,0 +1,4 @@
+import { InjectionToken } from '@angular/core';
+import { CacheConfig } from '../interfaces/cache-config.interface';
+
+export const CONFIG = new InjectionToken<CacheConfig>('CONFIG');
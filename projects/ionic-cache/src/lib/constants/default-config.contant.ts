@@ -1,5 +1,7 @@
 import { CacheConfig } from '../interfaces/cache-config.interface';
 
 export const defaultConfig: CacheConfig = {
-    keyPrefix: ''
+    keyPrefix: '',
+    httpInterceptor: false,
+    memoryCacheSize: 0
 };
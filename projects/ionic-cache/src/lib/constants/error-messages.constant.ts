@@ -1,7 +1,12 @@
 export const errorMessages = {
     initialization: 'Cache initialization error: ',
+    migration: 'Cache migration error: ',
     notEnabled: 'Cache is not enabled.',
     expired: 'Cache entry already expired: ',
     notFound: 'No such key: ',
-    browserOffline: 'No entries were deleted, because browser is offline.'
+    noEncryptionKey: 'No encryption key was provided to decrypt the cache entry.',
+    browserOffline: 'No entries were deleted, because browser is offline.',
+    outbox: 'Cache outbox error: ',
+    unsupportedBody: 'FormData and URLSearchParams bodies can not be queued in the outbox.',
+    invalidSnapshot: 'Invalid or unsupported cache snapshot.'
 };
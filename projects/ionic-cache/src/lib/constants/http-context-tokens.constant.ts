@@ -0,0 +1,32 @@
+import { HttpContextToken } from '@angular/common/http';
+import { CacheStrategy } from '../enums/cache-strategy.enum';
+
+/**
+ * When set to true the request bypasses the cache interceptor.
+ */
+export const CACHE_SKIP = new HttpContextToken<boolean>(() => false);
+
+/**
+ * The key to cache the response under, defaults to the key built with the httpCacheKey option or the URL with its parameters.
+ */
+export const CACHE_KEY = new HttpContextToken<string>(() => undefined);
+
+/**
+ * The TTL in seconds for the cached response, defaults to the cache service TTL.
+ */
+export const CACHE_TTL = new HttpContextToken<number>(() => undefined);
+
+/**
+ * The group key or tags to store the cached response under.
+ */
+export const CACHE_GROUP_KEY = new HttpContextToken<string | string[]>(() => undefined);
+
+/**
+ * The strategy used to load the response, defaults to cache first.
+ */
+export const CACHE_STRATEGY = new HttpContextToken<CacheStrategy>(() => CacheStrategy.CacheFirst);
+
+/**
+ * When set to true a mutation (POST, PUT, PATCH, DELETE) is queued in the outbox if the device is offline.
+ */
+export const CACHE_OFFLINE_QUEUE = new HttpContextToken<boolean>(() => false);
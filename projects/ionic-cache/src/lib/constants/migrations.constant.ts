@@ -0,0 +1,16 @@
+import { getItemTags } from '../helpers/get-item-tags.helper';
+import { CacheMigration } from '../interfaces/cache-migration.interface';
+
+/**
+ * Migrations of the storage format, ordered by version.
+ * A migration returns the upgraded item, or null when the item should be dropped.
+ */
+export const migrations: CacheMigration[] = [
+    {
+        // Items saved before versioning only have a group key.
+        version: 1,
+        migrate: (item) => ({ ...item, tags: getItemTags(item) })
+    }
+];
+
+export const schemaVersion = migrations[migrations.length - 1].version;
@@ -0,0 +1,66 @@
+import { arrayBufferToBase64 } from '../helpers/array-buffer-to-base64.helper';
+import { base64ToArrayBuffer } from '../helpers/base64-to-array-buffer.helper';
+import { CacheSerializer } from '../interfaces/cache-serializer.interface';
+
+type TypedArray =
+    | Int8Array
+    | Uint8Array
+    | Uint8ClampedArray
+    | Int16Array
+    | Uint16Array
+    | Int32Array
+    | Uint32Array
+    | Float32Array
+    | Float64Array;
+
+function typedArraySerializer<T extends TypedArray>(
+    type: string,
+    constructor: new (buffer: ArrayBuffer) => T
+): CacheSerializer<T> {
+    return {
+        type,
+        test: (data) => data instanceof constructor,
+        // The bytes are stored as base64 so that NaN and Infinity survive the JSON encoding.
+        encode: (data) => arrayBufferToBase64(new Uint8Array(data.buffer, data.byteOffset, data.byteLength)),
+        decode: (value) => new constructor(base64ToArrayBuffer(value))
+    };
+}
+
+/**
+ * Serializers for the JS types which JSON can't represent.
+ */
+export const builtInSerializers: CacheSerializer[] = [
+    {
+        type: 'date',
+        test: (data) => data instanceof Date,
+        encode: (data: Date) => data.getTime(),
+        decode: (value) => new Date(value)
+    },
+    {
+        type: 'map',
+        test: (data) => data instanceof Map,
+        encode: (data: Map<any, any>) => Array.from(data.entries()),
+        decode: (value) => new Map(value)
+    },
+    {
+        type: 'set',
+        test: (data) => data instanceof Set,
+        encode: (data: Set<any>) => Array.from(data.values()),
+        decode: (value) => new Set(value)
+    },
+    {
+        type: 'arraybuffer',
+        test: (data) => data instanceof ArrayBuffer,
+        encode: (data: ArrayBuffer) => arrayBufferToBase64(data),
+        decode: (value) => base64ToArrayBuffer(value)
+    },
+    typedArraySerializer('int8array', Int8Array),
+    typedArraySerializer('uint8array', Uint8Array),
+    typedArraySerializer('uint8clampedarray', Uint8ClampedArray),
+    typedArraySerializer('int16array', Int16Array),
+    typedArraySerializer('uint16array', Uint16Array),
+    typedArraySerializer('int32array', Int32Array),
+    typedArraySerializer('uint32array', Uint32Array),
+    typedArraySerializer('float32array', Float32Array),
+    typedArraySerializer('float64array', Float64Array)
+];
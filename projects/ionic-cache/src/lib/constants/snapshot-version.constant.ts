@@ -0,0 +1,4 @@
+/**
+ * Version of the cache snapshot format.
+ */
+export const snapshotVersion = 1;
@@ -0,0 +1,10 @@
+export enum CacheConflictResolution {
+    /**
+     * Sends the mutation again later.
+     */
+    Retry = 'retry',
+    /**
+     * Removes the mutation from the outbox.
+     */
+    Discard = 'discard'
+}
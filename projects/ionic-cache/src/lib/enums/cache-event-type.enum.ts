@@ -0,0 +1,7 @@
+export enum CacheEventType {
+    Saved = 'saved',
+    Removed = 'removed',
+    Expired = 'expired',
+    GroupCleared = 'group-cleared',
+    ClearedAll = 'cleared-all'
+}
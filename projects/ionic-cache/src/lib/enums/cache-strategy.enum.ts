@@ -0,0 +1,28 @@
+export enum CacheStrategy {
+    /**
+     * Emits the cached data and completes if it hasn't expired.
+     * Otherwise emits the data from the observable, saves it and completes.
+     */
+    CacheFirst = 'cache-first',
+    /**
+     * Emits the data from the observable, saves it and completes.
+     * If the observable errors it emits the cached data (even if expired) and completes,
+     * or rethrows the error when there is nothing cached.
+     */
+    NetworkFirst = 'network-first',
+    /**
+     * Emits the cached data (even if expired) when it exists,
+     * then emits the data from the observable, saves it and completes.
+     */
+    StaleWhileRevalidate = 'stale-while-revalidate',
+    /**
+     * Emits the cached data and completes if it hasn't expired, otherwise errors.
+     * The observable is never subscribed to.
+     */
+    CacheOnly = 'cache-only',
+    /**
+     * Emits the data from the observable, saves it and completes.
+     * The cache is never read.
+     */
+    NetworkOnly = 'network-only'
+}
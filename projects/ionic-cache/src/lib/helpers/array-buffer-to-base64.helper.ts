@@ -0,0 +1,14 @@
+/**
+ * Encodes binary data as a base64 string.
+ * @param buffer The binary data
+ * @return The base64 string.
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
+    const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+
+    return btoa(binary);
+}
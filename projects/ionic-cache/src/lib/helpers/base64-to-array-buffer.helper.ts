@@ -0,0 +1,14 @@
+/**
+ * Decodes a base64 string to binary data.
+ * @param base64 The base64 string
+ * @return The binary data.
+ */
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+
+    return bytes.buffer;
+}
@@ -0,0 +1,15 @@
+import { arrayBufferToBase64 } from './array-buffer-to-base64.helper';
+
+declare const CompressionStream: new (format: string) => TransformStream<Uint8Array, Uint8Array>;
+
+/**
+ * Compresses a value with gzip.
+ * @param value The value to compress
+ * @return The base64 encoded compressed value.
+ */
+export async function compressValue(value: string): Promise<string> {
+    const stream = new Blob([value]).stream().pipeThrough(new CompressionStream('gzip'));
+    const compressed = await new Response(stream).arrayBuffer();
+
+    return arrayBufferToBase64(compressed);
+}
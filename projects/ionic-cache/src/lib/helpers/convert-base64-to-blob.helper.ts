@@ -0,0 +1,13 @@
+import { base64ToArrayBuffer } from './base64-to-array-buffer.helper';
+
+/**
+ * Rebuilds a blob from a base64 data URL without fetching it.
+ * @param dataUrl The base64 data URL
+ * @return The blob.
+ */
+export function convertBase64ToBlob(dataUrl: string): Blob {
+    const [header, data = ''] = dataUrl.split(',');
+    const type = header.replace(/^data:/, '').replace(/;base64$/, '');
+
+    return new Blob([base64ToArrayBuffer(data)], { type });
+}
@@ -0,0 +1,17 @@
+import { HttpHeaders } from '@angular/common/http';
+
+/**
+ * Restores HttpHeaders encoded with encodeHttpHeaders.
+ * Headers saved by older versions can't be restored and are dropped.
+ * @param headers The encoded headers
+ * @return The HttpHeaders.
+ */
+export function decodeHttpHeaders(headers: any): HttpHeaders {
+    const isRecord =
+        !!headers &&
+        typeof headers === 'object' &&
+        !Array.isArray(headers) &&
+        Object.keys(headers).every((name) => typeof headers[name] === 'string' || Array.isArray(headers[name]));
+
+    return new HttpHeaders(isRecord ? headers : undefined);
+}
@@ -1,16 +1,32 @@
 import { HttpResponse } from '@angular/common/http';
 import { StorageCacheItem } from '../interfaces/cache-storage-item.interface';
+import { CacheSerializer } from '../interfaces/cache-serializer.interface';
+import { builtInSerializers } from '../constants/serializers.constant';
 import { isHttpResponse } from './is-http-response.helper';
 import { isJsOrResponseType } from './is-js-or-response-type.helper';
+import { decompressValue } from './decompress-value.helper';
+import { decodeHttpHeaders } from './decode-http-headers.helper';
+import { convertBase64ToBlob } from './convert-base64-to-blob.helper';
 
-export async function decodeRawData(data: StorageCacheItem): Promise<any> {
-    const dataJson = JSON.parse(data.value);
-    if (isJsOrResponseType(data)) {
+export async function decodeRawData(
+    data: StorageCacheItem,
+    serializers: CacheSerializer[] = builtInSerializers
+): Promise<any> {
+    if (data.value instanceof Blob || data.value instanceof ArrayBuffer) {
+        return data.value;
+    }
+
+    const value = data.compressed ? await decompressValue(data.value) : data.value;
+    const dataJson = JSON.parse(value);
+    const serializer = serializers.find((s) => s.type === data.type);
+    if (serializer) {
+        return serializer.decode(dataJson);
+    } else if (isJsOrResponseType(data)) {
         if (isHttpResponse(dataJson)) {
             const response: any = {
                 body: dataJson._body || dataJson.body,
                 status: dataJson.status,
-                headers: dataJson.headers,
+                headers: decodeHttpHeaders(dataJson.headers),
                 statusText: dataJson.statusText,
                 url: dataJson.url
             };
@@ -20,9 +36,6 @@ export async function decodeRawData(data: StorageCacheItem): Promise<any> {
 
         return dataJson;
     } else {
-        // Technique derived from: https://stackoverflow.com/a/36183085
-        const response = await fetch(dataJson);
-
-        return response.blob();
+        return convertBase64ToBlob(dataJson);
     }
 }
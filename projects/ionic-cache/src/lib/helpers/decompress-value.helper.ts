@@ -0,0 +1,14 @@
+import { base64ToArrayBuffer } from './base64-to-array-buffer.helper';
+
+declare const DecompressionStream: new (format: string) => TransformStream<Uint8Array, Uint8Array>;
+
+/**
+ * Decompresses a value compressed with compressValue.
+ * @param value The base64 encoded compressed value
+ * @return The original value.
+ */
+export async function decompressValue(value: string): Promise<string> {
+    const stream = new Blob([base64ToArrayBuffer(value)]).stream().pipeThrough(new DecompressionStream('gzip'));
+
+    return new Response(stream).text();
+}
@@ -0,0 +1,15 @@
+import { base64ToArrayBuffer } from './base64-to-array-buffer.helper';
+
+/**
+ * Decrypts a value encrypted with encryptValue.
+ * @param value The base64 encoded initialization vector and cipher text
+ * @param key The AES-GCM key
+ * @return The decrypted value.
+ */
+export async function decryptValue(value: string, key: CryptoKey): Promise<string> {
+    const bytes = new Uint8Array(base64ToArrayBuffer(value));
+    const iv = bytes.slice(0, 12);
+    const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, bytes.slice(12));
+
+    return new TextDecoder().decode(decrypted);
+}
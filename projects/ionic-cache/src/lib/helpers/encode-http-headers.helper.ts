@@ -0,0 +1,15 @@
+import { HttpHeaders } from '@angular/common/http';
+
+/**
+ * JSON replacer which encodes HttpHeaders as a record of header values.
+ * @param key The key of the value
+ * @param value The value to encode
+ * @return The encoded value.
+ */
+export function encodeHttpHeaders(key: string, value: any): any {
+    if (value instanceof HttpHeaders) {
+        return value.keys().reduce((headers, name) => ({ ...headers, [name]: value.getAll(name) }), {});
+    }
+
+    return value;
+}
@@ -0,0 +1,18 @@
+import { arrayBufferToBase64 } from './array-buffer-to-base64.helper';
+
+/**
+ * Encrypts a value with AES-GCM.
+ * A random initialization vector is generated and prepended to the cipher text.
+ * @param value The value to encrypt
+ * @param key The AES-GCM key
+ * @return The base64 encoded initialization vector and cipher text.
+ */
+export async function encryptValue(value: string, key: CryptoKey): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(value));
+    const result = new Uint8Array(iv.length + encrypted.byteLength);
+    result.set(iv);
+    result.set(new Uint8Array(encrypted), iv.length);
+
+    return arrayBufferToBase64(result);
+}
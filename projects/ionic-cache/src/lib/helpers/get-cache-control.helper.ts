@@ -0,0 +1,19 @@
+import { HttpHeaders } from '@angular/common/http';
+
+/**
+ * Parses the Cache-Control header.
+ * @param headers The response headers
+ * @return The directives by lowercase name, directives without a value map to an empty string.
+ */
+export function getCacheControl(headers: HttpHeaders): Map<string, string> {
+    const directives = new Map<string, string>();
+
+    (headers.get('Cache-Control') || '').split(',').forEach((directive) => {
+        const [name, value = ''] = directive.split('=');
+        if (name.trim()) {
+            directives.set(name.trim().toLowerCase(), value.trim().replace(/^"|"$/g, ''));
+        }
+    });
+
+    return directives;
+}
@@ -0,0 +1,12 @@
+import { CacheConfig } from '../interfaces/cache-config.interface';
+
+/**
+ * Gets the encryption key of the config.
+ * @param config The cache config
+ * @return The encryption key or undefined when encryption is disabled.
+ */
+export async function getEncryptionKey(config: CacheConfig): Promise<CryptoKey | undefined> {
+    const { encryptionKey } = config;
+
+    return typeof encryptionKey === 'function' ? encryptionKey() : encryptionKey;
+}
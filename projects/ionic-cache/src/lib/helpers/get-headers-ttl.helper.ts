@@ -0,0 +1,32 @@
+import { HttpHeaders } from '@angular/common/http';
+import { getCacheControl } from './get-cache-control.helper';
+
+/**
+ * Computes the remaining freshness lifetime of a response from its Cache-Control, Expires and Age headers.
+ * @param headers The response headers
+ * @return The TTL in seconds, or undefined if the headers don't define one.
+ */
+export function getHeadersTTL(headers: HttpHeaders): number | undefined {
+    const cacheControl = getCacheControl(headers);
+    if (cacheControl.has('no-cache')) {
+        return 0;
+    }
+
+    // The Age header is the time the response already spent in shared caches.
+    const age = Math.max(parseInt(headers.get('Age'), 10) || 0, 0);
+    const maxAge = cacheControl.has('max-age') ? cacheControl.get('max-age') : cacheControl.get('s-maxage');
+    if (maxAge !== undefined) {
+        return Math.max((parseInt(maxAge, 10) || 0) - age, 0);
+    }
+
+    const expires = headers.get('Expires');
+    if (expires !== null) {
+        // Compare with the server date to avoid issues with the device clock.
+        const date = Date.parse(headers.get('Date')) || Date.now();
+        const ttl = (Date.parse(expires) - date) / 1000 - age;
+
+        return ttl > 0 ? Math.floor(ttl) : 0;
+    }
+
+    return undefined;
+}
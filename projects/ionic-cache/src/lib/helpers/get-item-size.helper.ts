@@ -0,0 +1,14 @@
+import { StorageCacheItem } from '../interfaces/cache-storage-item.interface';
+
+/**
+ * Gets the approximate size of a cache item in bytes.
+ * @param item The raw cache item
+ * @return The size stored with the item, or the length of its value for items saved before sizes existed.
+ */
+export function getItemSize(item: StorageCacheItem): number {
+    if (typeof item.size === 'number') {
+        return item.size;
+    }
+
+    return typeof item.value === 'string' ? item.value.length : 0;
+}
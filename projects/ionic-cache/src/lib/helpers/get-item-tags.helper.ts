@@ -0,0 +1,14 @@
+import { StorageCacheItem } from '../interfaces/cache-storage-item.interface';
+
+/**
+ * Gets the tags of a cache item, items saved before tags existed only have a group key.
+ * @param item The raw cache item
+ * @return The tags of the item.
+ */
+export function getItemTags(item: StorageCacheItem): string[] {
+    if (Array.isArray(item.tags)) {
+        return item.tags;
+    }
+
+    return item.groupKey ? [item.groupKey] : [];
+}
@@ -0,0 +1,9 @@
+declare const CompressionStream: unknown;
+
+/**
+ * Checks if the platform can compress values.
+ * @return True if the Compression Streams API is available.
+ */
+export function isCompressionSupported(): boolean {
+    return typeof CompressionStream !== 'undefined';
+}
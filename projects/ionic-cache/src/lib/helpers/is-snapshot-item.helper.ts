@@ -0,0 +1,17 @@
+import { StorageCacheItem } from '../interfaces/cache-storage-item.interface';
+
+/**
+ * Checks if a value has the shape of a cache item, e.g. before importing it from a snapshot.
+ * @param item The value
+ * @return Whether the value has a key, a type, an expiry and a value.
+ */
+export function isSnapshotItem(item: any): item is StorageCacheItem {
+    return (
+        !!item &&
+        typeof item.key === 'string' &&
+        typeof item.type === 'string' &&
+        typeof item.expires === 'number' &&
+        item.value !== undefined &&
+        item.value !== null
+    );
+}
@@ -0,0 +1,26 @@
+import { migrations, schemaVersion } from '../constants/migrations.constant';
+import { StorageCacheItem } from '../interfaces/cache-storage-item.interface';
+
+/**
+ * Upgrades an item to the current storage format.
+ * @param item The raw cache item
+ * @return The upgraded item, or null when the item should be dropped.
+ */
+export function migrateItem(item: StorageCacheItem): StorageCacheItem | null {
+    const version = item.version || 0;
+    if (version > schemaVersion) {
+        return null;
+    }
+
+    let migrated = item;
+    for (const migration of migrations.filter((m) => m.version > version)) {
+        const result = migration.migrate(migrated);
+        if (!result) {
+            return null;
+        }
+
+        migrated = { ...result, version: migration.version };
+    }
+
+    return migrated;
+}
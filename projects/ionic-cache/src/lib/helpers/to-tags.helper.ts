@@ -0,0 +1,8 @@
+/**
+ * Converts a group key or a list of tags to a list of tags.
+ * @param groupKey The group key or tags
+ * @return The tags.
+ */
+export function toTags(groupKey: string | string[]): string[] {
+    return Array.isArray(groupKey) ? groupKey : [groupKey];
+}
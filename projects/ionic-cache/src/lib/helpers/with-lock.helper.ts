@@ -0,0 +1,14 @@
+/**
+ * Runs a callback while holding an exclusive lock, which is shared by all the tabs of the origin.
+ * The callback runs without a lock when the Web Locks API isn't available.
+ * @param name The name of the lock
+ * @param callback The callback
+ * @return The result of the callback.
+ */
+export function withLock<T>(name: string, callback: () => Promise<T>): Promise<T> {
+    const { locks } = navigator as Navigator & {
+        locks?: { request: (name: string, callback: () => Promise<T>) => Promise<T> };
+    };
+
+    return locks ? locks.request(name, callback) : callback();
+}
@@ -0,0 +1,304 @@
+import {
+    HttpContext,
+    HttpErrorResponse,
+    HttpHandler,
+    HttpHeaders,
+    HttpRequest,
+    HttpResponse
+} from '@angular/common/http';
+import { TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import { CONFIG } from '../../constants/config-token.constant';
+import {
+    CACHE_GROUP_KEY,
+    CACHE_KEY,
+    CACHE_OFFLINE_QUEUE,
+    CACHE_SKIP,
+    CACHE_STRATEGY,
+    CACHE_TTL
+} from '../../constants/http-context-tokens.constant';
+import { CacheStrategy } from '../../enums/cache-strategy.enum';
+import { encodeHttpHeaders } from '../../helpers/encode-http-headers.helper';
+import { CacheService } from '../../services/cache/cache.service';
+import { CacheOutboxService } from '../../services/cache-outbox/cache-outbox.service';
+import { CacheInterceptor } from './cache.interceptor';
+
+describe('CacheInterceptor', () => {
+    let interceptor: CacheInterceptor;
+    let config: any;
+    let dependencies: {
+        cacheService: jest.Mocked<CacheService>;
+        outbox: jest.Mocked<CacheOutboxService>;
+        handler: jest.Mocked<HttpHandler>;
+    };
+
+    beforeEach(() => {
+        config = {};
+        dependencies = {
+            cacheService: {
+                load: jest.fn(() => of()),
+                getRawItem: jest.fn(() => Promise.reject(new Error())),
+                isOnline: jest.fn(() => true)
+            } as any,
+            outbox: {
+                enqueue: jest.fn(() => Promise.resolve({})),
+                getMutations: jest.fn(() => Promise.resolve([]))
+            } as any,
+            handler: {
+                handle: jest.fn(() => of(new HttpResponse({ body: {} }))) as any
+            }
+        };
+
+        TestBed.configureTestingModule({
+            providers: [
+                CacheInterceptor,
+                {
+                    provide: CacheService,
+                    useValue: dependencies.cacheService
+                },
+                {
+                    provide: CacheOutboxService,
+                    useValue: dependencies.outbox
+                },
+                {
+                    provide: CONFIG,
+                    useValue: config
+                }
+            ]
+        });
+        interceptor = TestBed.inject(CacheInterceptor);
+    });
+
+    it('should be created', () => {
+        expect(interceptor).toBeTruthy();
+    });
+
+    describe('intercept', () => {
+        const mockUrl = 'https://example.com/movies';
+
+        describe('when the request is a GET request', () => {
+            beforeEach(() => {
+                const request = new HttpRequest('GET', mockUrl);
+                interceptor.intercept(request, dependencies.handler);
+            });
+
+            it('should load the response from the cache using the cache first strategy', () => {
+                expect(dependencies.cacheService.load).toHaveBeenCalledWith(mockUrl, expect.anything(), {
+                    strategy: CacheStrategy.CacheFirst,
+                    groupKey: undefined,
+                    ttl: undefined
+                });
+            });
+        });
+
+        describe('when the request has a group key and ttl', () => {
+            beforeEach(() => {
+                const context = new HttpContext().set(CACHE_GROUP_KEY, 'movies').set(CACHE_TTL, 60);
+                const request = new HttpRequest('GET', mockUrl, { context });
+                interceptor.intercept(request, dependencies.handler);
+            });
+
+            it('should pass the group key and ttl to the cache', () => {
+                expect(dependencies.cacheService.load).toHaveBeenCalledWith(mockUrl, expect.anything(), {
+                    strategy: CacheStrategy.CacheFirst,
+                    groupKey: 'movies',
+                    ttl: 60
+                });
+            });
+        });
+
+        describe('when a cache key function is configured', () => {
+            beforeEach(() => {
+                interceptor['config'].httpCacheKey = (request: HttpRequest<any>) =>
+                    `${request.headers.get('X-Tenant')}:${request.urlWithParams}`;
+                const request = new HttpRequest('GET', mockUrl, { headers: new HttpHeaders({ 'X-Tenant': 'acme' }) });
+                interceptor.intercept(request, dependencies.handler);
+            });
+
+            it('should cache the response under the key of the function', () => {
+                expect(dependencies.cacheService.load).toHaveBeenCalledWith(
+                    `acme:${mockUrl}`,
+                    expect.anything(),
+                    expect.anything()
+                );
+            });
+        });
+
+        describe('when the request has a cache key', () => {
+            beforeEach(() => {
+                interceptor['config'].httpCacheKey = () => 'configured';
+                const context = new HttpContext().set(CACHE_KEY, 'movies/user-42');
+                const request = new HttpRequest('GET', mockUrl, { context });
+                interceptor.intercept(request, dependencies.handler);
+            });
+
+            it('should cache the response under the key of the request', () => {
+                expect(dependencies.cacheService.load).toHaveBeenCalledWith(
+                    'movies/user-42',
+                    expect.anything(),
+                    expect.anything()
+                );
+            });
+        });
+
+        describe('when the request has a strategy', () => {
+            beforeEach(() => {
+                const context = new HttpContext().set(CACHE_STRATEGY, CacheStrategy.StaleWhileRevalidate);
+                const request = new HttpRequest('GET', mockUrl, { context });
+                interceptor.intercept(request, dependencies.handler);
+            });
+
+            it('should load the response with the strategy', () => {
+                expect(dependencies.cacheService.load).toHaveBeenCalledWith(mockUrl, expect.anything(), {
+                    strategy: CacheStrategy.StaleWhileRevalidate,
+                    groupKey: undefined,
+                    ttl: undefined
+                });
+            });
+        });
+
+        describe('when the request skips the cache', () => {
+            beforeEach(() => {
+                const context = new HttpContext().set(CACHE_SKIP, true);
+                const request = new HttpRequest('GET', mockUrl, { context });
+                interceptor.intercept(request, dependencies.handler);
+            });
+
+            it('should not use the cache', () => {
+                expect(dependencies.cacheService.load).not.toHaveBeenCalled();
+            });
+
+            it('should pass the request to the next handler', () => {
+                expect(dependencies.handler.handle).toHaveBeenCalled();
+            });
+        });
+
+        describe('when the cached response has validators', () => {
+            const cachedResponse = new HttpResponse({
+                body: { title: 'cached' },
+                headers: new HttpHeaders({ ETag: '"v1"', 'Last-Modified': 'Wed, 21 Oct 2015 07:28:00 GMT' }),
+                status: 200,
+                statusText: 'OK',
+                url: mockUrl
+            });
+            const request = new HttpRequest('GET', mockUrl);
+
+            beforeEach(() => {
+                dependencies.cacheService.load.mockImplementation((key, observable) => observable);
+                dependencies.cacheService.getRawItem.mockReturnValue(
+                    Promise.resolve({
+                        key: mockUrl,
+                        value: JSON.stringify(cachedResponse, encodeHttpHeaders),
+                        expires: 0,
+                        type: 'response',
+                        groupKey: 'none'
+                    })
+                );
+            });
+
+            it('should send a conditional request', async () => {
+                await interceptor.intercept(request, dependencies.handler).toPromise();
+                const [sent] = dependencies.handler.handle.mock.calls[0];
+                expect(sent.headers.get('If-None-Match')).toBe('"v1"');
+                expect(sent.headers.get('If-Modified-Since')).toBe('Wed, 21 Oct 2015 07:28:00 GMT');
+            });
+
+            describe('when the response is not modified', () => {
+                beforeEach(() => {
+                    dependencies.handler.handle.mockReturnValue(
+                        throwError(
+                            new HttpErrorResponse({
+                                status: 304,
+                                headers: new HttpHeaders({ ETag: '"v2"' }),
+                                url: mockUrl
+                            })
+                        )
+                    );
+                });
+
+                it('should emit the cached response with the refreshed headers', async () => {
+                    const response: any = await interceptor.intercept(request, dependencies.handler).toPromise();
+                    expect(response.body).toEqual({ title: 'cached' });
+                    expect(response.status).toBe(200);
+                    expect(response.headers.get('ETag')).toBe('"v2"');
+                    expect(response.headers.get('Last-Modified')).toBe('Wed, 21 Oct 2015 07:28:00 GMT');
+                });
+            });
+
+            describe('when the request fails', () => {
+                it('should return the error', async () => {
+                    const error = new HttpErrorResponse({ status: 500, url: mockUrl });
+                    dependencies.handler.handle.mockReturnValue(throwError(error));
+                    await expect(interceptor.intercept(request, dependencies.handler).toPromise()).rejects.toBe(error);
+                });
+            });
+        });
+
+        describe('when there is no cached response', () => {
+            it('should send the request without validators', async () => {
+                dependencies.cacheService.load.mockImplementation((key, observable) => observable);
+                await interceptor.intercept(new HttpRequest('GET', mockUrl), dependencies.handler).toPromise();
+                const [sent] = dependencies.handler.handle.mock.calls[0];
+                expect(sent.headers.has('If-None-Match')).toBe(false);
+            });
+        });
+
+        describe('when the request is not a GET request', () => {
+            beforeEach(() => {
+                const request = new HttpRequest('POST', mockUrl, {});
+                interceptor.intercept(request, dependencies.handler);
+            });
+
+            it('should not use the cache', () => {
+                expect(dependencies.cacheService.load).not.toHaveBeenCalled();
+            });
+        });
+
+        describe('when the mutation can be queued', () => {
+            const context = new HttpContext().set(CACHE_OFFLINE_QUEUE, true);
+            const request = new HttpRequest('POST', mockUrl, { title: 'new' }, { context });
+
+            describe('when the device is online', () => {
+                it('should send the request', async () => {
+                    const response = await interceptor.intercept(request, dependencies.handler).toPromise();
+                    expect(dependencies.handler.handle).toHaveBeenCalledWith(request);
+                    expect(dependencies.outbox.enqueue).not.toHaveBeenCalled();
+                    expect(response).toBeInstanceOf(HttpResponse);
+                });
+
+                it('should queue the request when the server can not be reached', async () => {
+                    dependencies.handler.handle.mockReturnValue(throwError(new HttpErrorResponse({ status: 0 })));
+                    const response: any = await interceptor.intercept(request, dependencies.handler).toPromise();
+                    expect(dependencies.outbox.enqueue).toHaveBeenCalledWith(request);
+                    expect(response.status).toBe(202);
+                });
+            });
+
+            describe('when older mutations are queued', () => {
+                beforeEach(() => {
+                    dependencies.outbox.getMutations.mockReturnValue(Promise.resolve([{ id: '1' } as any]));
+                });
+
+                it('should queue the request behind them', async () => {
+                    const response: any = await interceptor.intercept(request, dependencies.handler).toPromise();
+                    expect(dependencies.handler.handle).not.toHaveBeenCalled();
+                    expect(dependencies.outbox.enqueue).toHaveBeenCalledWith(request);
+                    expect(response.status).toBe(202);
+                });
+            });
+
+            describe('when the device is offline', () => {
+                beforeEach(() => {
+                    dependencies.cacheService.isOnline.mockReturnValue(false);
+                });
+
+                it('should queue the request and return an accepted response', async () => {
+                    const response: any = await interceptor.intercept(request, dependencies.handler).toPromise();
+                    expect(dependencies.handler.handle).not.toHaveBeenCalled();
+                    expect(dependencies.outbox.enqueue).toHaveBeenCalledWith(request);
+                    expect(response.status).toBe(202);
+                });
+            });
+        });
+    });
+});
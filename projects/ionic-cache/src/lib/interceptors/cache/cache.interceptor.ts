@@ -0,0 +1,160 @@
+import { Inject, Injectable } from '@angular/core';
+import {
+    HttpErrorResponse,
+    HttpEvent,
+    HttpHandler,
+    HttpInterceptor,
+    HttpRequest,
+    HttpResponse
+} from '@angular/common/http';
+import { defer, Observable, of, throwError } from 'rxjs';
+import { catchError, filter, mapTo, mergeMap } from 'rxjs/operators';
+import { CacheService } from '../../services/cache/cache.service';
+import { CacheOutboxService } from '../../services/cache-outbox/cache-outbox.service';
+import { CONFIG } from '../../constants/config-token.constant';
+import {
+    CACHE_GROUP_KEY,
+    CACHE_KEY,
+    CACHE_OFFLINE_QUEUE,
+    CACHE_SKIP,
+    CACHE_STRATEGY,
+    CACHE_TTL
+} from '../../constants/http-context-tokens.constant';
+import { decodeRawData } from '../../helpers/decode-raw-data.helper';
+import { CacheConfig } from '../../interfaces/cache-config.interface';
+
+@Injectable()
+export class CacheInterceptor implements HttpInterceptor {
+    constructor(
+        private cacheService: CacheService,
+        private outbox: CacheOutboxService,
+        @Inject(CONFIG) private config: CacheConfig
+    ) {}
+
+    /**
+     * Caches GET responses using the options provided through the request context.
+     * Only the final response is emitted for cached requests, progress events are dropped.
+     * @param request The outgoing request
+     * @param next The next handler in the chain
+     * @returns An observable with the cached or network response.
+     */
+    public intercept(request: HttpRequest<any>, next: HttpHandler): Observable<HttpEvent<any>> {
+        if (request.method !== 'GET' && request.context.get(CACHE_OFFLINE_QUEUE)) {
+            return this.queueWhenOffline(request, next);
+        }
+
+        if (!this.isCacheable(request)) {
+            return next.handle(request);
+        }
+
+        const key = this.getCacheKey(request);
+        const groupKey = request.context.get(CACHE_GROUP_KEY);
+        const ttl = request.context.get(CACHE_TTL);
+        const strategy = request.context.get(CACHE_STRATEGY);
+        const response = defer(() => this.getCachedResponse(key)).pipe(
+            mergeMap((cached) => this.revalidate(request, next, cached))
+        );
+
+        return this.cacheService.load(key, response, { strategy, groupKey, ttl });
+    }
+
+    /**
+     * Gets the key to cache the response under.
+     * The CACHE_KEY token takes precedence over the httpCacheKey option, the URL with its parameters is the default.
+     */
+    private getCacheKey(request: HttpRequest<any>): string {
+        const { httpCacheKey } = this.config;
+
+        return request.context.get(CACHE_KEY) || (httpCacheKey ? httpCacheKey(request) : request.urlWithParams);
+    }
+
+    /**
+     * Returns whether or not the request should be cached.
+     * Only GET requests with a json or text response type are cached.
+     */
+    private isCacheable(request: HttpRequest<any>): boolean {
+        return (
+            request.method === 'GET' &&
+            (request.responseType === 'json' || request.responseType === 'text') &&
+            !request.context.get(CACHE_SKIP)
+        );
+    }
+
+    /**
+     * Sends a mutation, or adds it to the outbox when the device is offline or the server can't be reached.
+     * While older mutations are queued the mutation is queued as well, so that the mutations are sent in order.
+     * @param request The outgoing request
+     * @param next The next handler in the chain
+     * @returns An observable with the network response, or a 202 Accepted response when it is queued.
+     */
+    private queueWhenOffline(request: HttpRequest<any>, next: HttpHandler): Observable<HttpEvent<any>> {
+        const queued = defer(() => this.outbox.enqueue(request)).pipe(
+            mapTo(new HttpResponse({ status: 202, statusText: 'Accepted', url: request.urlWithParams }))
+        );
+        const sent = defer(() => next.handle(request)).pipe(
+            catchError((error) =>
+                error instanceof HttpErrorResponse && error.status === 0 ? queued : throwError(error)
+            )
+        );
+
+        return defer(() => this.outbox.getMutations()).pipe(
+            mergeMap((mutations) => (!this.cacheService.isOnline() || mutations.length ? queued : sent))
+        );
+    }
+
+    /**
+     * Gets the cached response, even if it has expired.
+     * @param key The cache key
+     * @returns The cached response or undefined.
+     */
+    private async getCachedResponse(key: string): Promise<HttpResponse<any> | undefined> {
+        try {
+            const data = await decodeRawData(await this.cacheService.getRawItem(key));
+
+            return data instanceof HttpResponse ? data : undefined;
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    /**
+     * Sends the request with the validators of the cached response.
+     * A 304 response is replaced with the cached response, so that its expiry gets refreshed.
+     * @param request The outgoing request
+     * @param next The next handler in the chain
+     * @param cached The cached response
+     * @returns An observable with the network response.
+     */
+    private revalidate(
+        request: HttpRequest<any>,
+        next: HttpHandler,
+        cached?: HttpResponse<any>
+    ): Observable<HttpEvent<any>> {
+        const etag = cached?.headers.get('ETag');
+        const lastModified = cached?.headers.get('Last-Modified');
+        let headers = request.headers;
+
+        if (etag && !headers.has('If-None-Match')) {
+            headers = headers.set('If-None-Match', etag);
+        }
+
+        if (lastModified && !headers.has('If-Modified-Since')) {
+            headers = headers.set('If-Modified-Since', lastModified);
+        }
+
+        return next.handle(request.clone({ headers })).pipe(
+            filter((event) => event instanceof HttpResponse),
+            catchError((error) => {
+                if (cached && error instanceof HttpErrorResponse && error.status === 304) {
+                    const refreshedHeaders = error.headers
+                        .keys()
+                        .reduce((result, name) => result.set(name, error.headers.getAll(name)), cached.headers);
+
+                    return of(cached.clone({ headers: refreshedHeaders }));
+                }
+
+                return throwError(error);
+            })
+        );
+    }
+}
@@ -0,0 +1,6 @@
+export interface CacheBatchEntry {
+    key: string;
+    data: any;
+    groupKey?: string | string[];
+    ttl?: number;
+}
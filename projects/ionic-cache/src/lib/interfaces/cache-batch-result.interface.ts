@@ -0,0 +1,6 @@
+export interface CacheBatchResult<T = any> {
+    key: string;
+    success: boolean;
+    data?: T;
+    error?: any;
+}
@@ -1,3 +1,28 @@
+import { HttpRequest } from '@angular/common/http';
+import { CacheStorageAdapter } from '../adapters/cache-storage.adapter';
+import { CacheSerializer } from './cache-serializer.interface';
+import { HttpCacheHeadersConfig } from './http-cache-headers-config.interface';
+import { CacheSweeperConfig } from './cache-sweeper-config.interface';
+import { CacheOutboxConfig } from './cache-outbox-config.interface';
+
 export interface CacheConfig {
     keyPrefix?: string;
+    httpInterceptor?: boolean;
+    httpCacheKey?: (request: HttpRequest<any>) => string;
+    storage?: CacheStorageAdapter;
+    storageName?: string;
+    storeName?: string;
+    driverOrder?: string[];
+    memoryCacheSize?: number;
+    maxEntries?: number;
+    maxBytes?: number;
+    dataVersion?: string | number;
+    encryptionKey?: CryptoKey | (() => Promise<CryptoKey>);
+    compressionThreshold?: number;
+    serializers?: CacheSerializer[];
+    httpCacheHeaders?: boolean | HttpCacheHeadersConfig;
+    sweeper?: boolean | CacheSweeperConfig;
+    refreshOnReconnect?: boolean;
+    outbox?: CacheOutboxConfig;
+    crossTabSync?: boolean;
 }
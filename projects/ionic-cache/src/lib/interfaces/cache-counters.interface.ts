@@ -0,0 +1,8 @@
+export interface CacheCounters {
+    hits: number;
+    misses: number;
+    stale: number;
+    writes: number;
+    evictions: number;
+    errors: number;
+}
@@ -0,0 +1,10 @@
+import { CacheEventType } from '../enums/cache-event-type.enum';
+
+export interface CacheEvent {
+    type: CacheEventType;
+    key?: string;
+    groupKey?: string;
+    tags?: string[];
+    data?: any;
+    remote?: boolean;
+}
@@ -0,0 +1,7 @@
+export interface CacheIndexEntry {
+    key: string;
+    size: number;
+    groupKey: string;
+    expires: number;
+    lastAccess: number;
+}
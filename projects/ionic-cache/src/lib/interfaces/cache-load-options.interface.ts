@@ -0,0 +1,8 @@
+import { CacheStrategy } from '../enums/cache-strategy.enum';
+
+export interface CacheLoadOptions {
+    strategy?: CacheStrategy;
+    groupKey?: string | string[];
+    ttl?: number;
+    metaKey?: string;
+}
@@ -0,0 +1,5 @@
+import { StorageCacheItem } from './cache-storage-item.interface';
+
+export interface CacheMemoryEntry {
+    item: StorageCacheItem;
+}
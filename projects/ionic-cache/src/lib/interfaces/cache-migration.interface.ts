@@ -0,0 +1,6 @@
+import { StorageCacheItem } from './cache-storage-item.interface';
+
+export interface CacheMigration {
+    version: number;
+    migrate: (item: StorageCacheItem) => StorageCacheItem | null;
+}
@@ -0,0 +1,11 @@
+export interface CacheMutation {
+    id: string;
+    method: string;
+    url: string;
+    body: any;
+    bodyType?: 'blob' | 'arraybuffer';
+    headers: { [name: string]: string[] };
+    responseType: 'arraybuffer' | 'blob' | 'json' | 'text';
+    createdAt: number;
+    attempts: number;
+}
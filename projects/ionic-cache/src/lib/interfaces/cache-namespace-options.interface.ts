@@ -0,0 +1,4 @@
+export interface CacheNamespaceOptions {
+    ttl?: number;
+    groupKey?: string | string[];
+}
@@ -0,0 +1,12 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { CacheConflictResolution } from '../enums/cache-conflict-resolution.enum';
+import { CacheMutation } from './cache-mutation.interface';
+
+export interface CacheOutboxConfig {
+    maxRetries?: number;
+    retryDelay?: number;
+    onConflict?: (
+        mutation: CacheMutation,
+        error: HttpErrorResponse
+    ) => CacheConflictResolution | Promise<CacheConflictResolution>;
+}
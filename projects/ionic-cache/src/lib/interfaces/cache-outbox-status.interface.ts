@@ -0,0 +1,7 @@
+import { CacheMutation } from './cache-mutation.interface';
+
+export interface CacheOutboxStatus {
+    pending: number;
+    replaying: boolean;
+    lastError?: { mutation: CacheMutation; error: any };
+}
@@ -0,0 +1,8 @@
+import { ObservableInput } from 'rxjs';
+
+export interface CachePrefetchDescriptor<T = any> {
+    key: string;
+    factory: () => ObservableInput<T>;
+    groupKey?: string | string[];
+    ttl?: number;
+}
@@ -0,0 +1,3 @@
+export interface CachePrefetchOptions {
+    concurrency?: number;
+}
@@ -0,0 +1,7 @@
+export interface CachePrefetchProgress {
+    total: number;
+    fetched: number;
+    skipped: number;
+    failed: number;
+    key?: string;
+}
@@ -0,0 +1,6 @@
+export interface CacheSerializer<T = any> {
+    type: string;
+    test: (data: any) => boolean;
+    encode: (data: T) => any;
+    decode: (value: any) => T;
+}
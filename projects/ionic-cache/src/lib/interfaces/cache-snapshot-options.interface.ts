@@ -0,0 +1,4 @@
+export interface CacheSnapshotOptions {
+    groupKey?: string;
+    keys?: string[];
+}
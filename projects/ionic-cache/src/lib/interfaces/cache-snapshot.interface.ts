@@ -0,0 +1,7 @@
+import { StorageCacheItem } from './cache-storage-item.interface';
+
+export interface CacheSnapshot {
+    version: number;
+    createdAt: number;
+    items: StorageCacheItem[];
+}
@@ -0,0 +1,7 @@
+import { CacheCounters } from './cache-counters.interface';
+
+export interface CacheStats extends CacheCounters {
+    entries: number;
+    bytes: number;
+    groups: { [groupKey: string]: CacheCounters };
+}
@@ -0,0 +1,4 @@
+export interface CacheStorageEntry {
+    key: string;
+    value: any;
+}
@@ -4,4 +4,11 @@ export interface StorageCacheItem {
     expires: number;
     type: string;
     groupKey: string;
+    tags?: string[];
+    lastAccess?: number;
+    size?: number;
+    version?: number;
+    dataVersion?: string | number;
+    encrypted?: boolean;
+    compressed?: boolean;
 }
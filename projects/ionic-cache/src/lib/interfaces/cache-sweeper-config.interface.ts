@@ -0,0 +1,5 @@
+export interface CacheSweeperConfig {
+    interval?: number;
+    batchSize?: number;
+    sweepOffline?: boolean;
+}
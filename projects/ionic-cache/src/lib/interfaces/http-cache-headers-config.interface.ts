@@ -0,0 +1,4 @@
+export interface HttpCacheHeadersConfig {
+    minTTL?: number;
+    maxTTL?: number;
+}
@@ -0,0 +1,53 @@
+import { APP_INITIALIZER, Provider } from '@angular/core';
+import { HTTP_INTERCEPTORS } from '@angular/common/http';
+import { TestBed } from '@angular/core/testing';
+import { CONFIG } from './constants/config-token.constant';
+import { defaultConfig } from './constants/default-config.contant';
+import { CacheInterceptor } from './interceptors/cache/cache.interceptor';
+import { CacheService } from './services/cache/cache.service';
+import { CacheSyncService } from './services/cache-sync/cache-sync.service';
+import { provideIonicCache } from './provide-ionic-cache';
+
+describe('provideIonicCache', () => {
+    const findProviders = (providers: Provider[], token: any) =>
+        providers.filter((provider: any) => provider.provide === token) as any[];
+
+    it('should provide the config merged with the default config', () => {
+        TestBed.configureTestingModule({ providers: provideIonicCache({ keyPrefix: 'app-', maxEntries: 10 }) });
+        expect(TestBed.inject(CONFIG)).toEqual({ ...defaultConfig, keyPrefix: 'app-', maxEntries: 10 });
+    });
+
+    it('should provide the default config without a config', () => {
+        TestBed.configureTestingModule({ providers: provideIonicCache() });
+        expect(TestBed.inject(CONFIG)).toEqual(defaultConfig);
+    });
+
+    it('should provide the cache service', () => {
+        expect(provideIonicCache()).toContain(CacheService);
+    });
+
+    describe('HTTP interceptor', () => {
+        it('should register the interceptor when it is enabled', () => {
+            expect(findProviders(provideIonicCache({ httpInterceptor: true }), HTTP_INTERCEPTORS)).toEqual([
+                { provide: HTTP_INTERCEPTORS, useClass: CacheInterceptor, multi: true }
+            ]);
+        });
+
+        it('should not register the interceptor by default', () => {
+            expect(findProviders(provideIonicCache(), HTTP_INTERCEPTORS)).toEqual([]);
+        });
+    });
+
+    describe('cross-tab sync', () => {
+        it('should create the sync service on startup when it is enabled', () => {
+            const initializers = findProviders(provideIonicCache({ crossTabSync: true }), APP_INITIALIZER);
+            expect(initializers).toEqual([
+                { provide: APP_INITIALIZER, useFactory: expect.any(Function), deps: [CacheSyncService], multi: true }
+            ]);
+        });
+
+        it('should not add an initializer by default', () => {
+            expect(findProviders(provideIonicCache(), APP_INITIALIZER)).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,59 @@
+import { APP_INITIALIZER, Provider } from '@angular/core';
+import { HTTP_INTERCEPTORS } from '@angular/common/http';
+import { CacheService } from './services/cache/cache.service';
+import { CacheOutboxService } from './services/cache-outbox/cache-outbox.service';
+import { CacheSyncService } from './services/cache-sync/cache-sync.service';
+import { defaultConfig } from './constants/default-config.contant';
+import { CacheConfig } from './interfaces/cache-config.interface';
+import { CacheStorageService } from './services/cache-storage/cache-storage.service';
+import { CacheMemoryService } from './services/cache-memory/cache-memory.service';
+import { CacheIndexService } from './services/cache-index/cache-index.service';
+import { CacheInterceptor } from './interceptors/cache/cache.interceptor';
+import { CONFIG } from './constants/config-token.constant';
+import { NetworkStatusProvider } from './providers/network-status.provider';
+import { BrowserNetworkStatusProvider } from './providers/browser-network-status.provider';
+
+/**
+ * Provides the cache services, for apps bootstrapped without NgModules.
+ * @param cacheConfig The cache config, merged with the default config
+ * @returns The providers of the cache.
+ */
+export function provideIonicCache(cacheConfig?: CacheConfig): Provider[] {
+    const config: CacheConfig = { ...defaultConfig, ...cacheConfig };
+
+    return [
+        {
+            provide: CONFIG,
+            useValue: config
+        },
+        CacheStorageService,
+        CacheMemoryService,
+        CacheIndexService,
+        {
+            provide: NetworkStatusProvider,
+            useClass: BrowserNetworkStatusProvider
+        },
+        CacheService,
+        CacheOutboxService,
+        CacheSyncService,
+        ...(config.crossTabSync
+            ? [
+                  {
+                      provide: APP_INITIALIZER,
+                      useFactory: () => () => undefined,
+                      deps: [CacheSyncService],
+                      multi: true
+                  }
+              ]
+            : []),
+        ...(config.httpInterceptor
+            ? [
+                  {
+                      provide: HTTP_INTERCEPTORS,
+                      useClass: CacheInterceptor,
+                      multi: true
+                  }
+              ]
+            : [])
+    ];
+}
@@ -0,0 +1,37 @@
+import { BrowserNetworkStatusProvider } from './browser-network-status.provider';
+
+describe('BrowserNetworkStatusProvider', () => {
+    let provider: BrowserNetworkStatusProvider;
+    let onLine: jest.SpyInstance;
+
+    beforeEach(() => {
+        onLine = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+        provider = new BrowserNetworkStatusProvider();
+    });
+
+    afterEach(() => {
+        onLine.mockRestore();
+    });
+
+    describe('isOnline', () => {
+        it('should return the status of the browser', () => {
+            expect(provider.isOnline()).toBe(true);
+            onLine.mockReturnValue(false);
+            expect(provider.isOnline()).toBe(false);
+        });
+    });
+
+    describe('online$', () => {
+        it('should emit the current status and its changes', () => {
+            const statuses: boolean[] = [];
+            const subscription = provider.online$.subscribe((online) => statuses.push(online));
+
+            window.dispatchEvent(new Event('offline'));
+            window.dispatchEvent(new Event('offline'));
+            window.dispatchEvent(new Event('online'));
+            subscription.unsubscribe();
+
+            expect(statuses).toEqual([true, false, true]);
+        });
+    });
+});
@@ -0,0 +1,20 @@
+import { Injectable } from '@angular/core';
+import { defer, fromEvent, merge, Observable, of } from 'rxjs';
+import { distinctUntilChanged, mapTo } from 'rxjs/operators';
+import { NetworkStatusProvider } from './network-status.provider';
+
+/**
+ * Reads the network status from the browser with navigator.onLine and the online/offline events.
+ */
+@Injectable()
+export class BrowserNetworkStatusProvider extends NetworkStatusProvider {
+    public online$: Observable<boolean> = merge(
+        defer(() => of(this.isOnline())),
+        fromEvent(window, 'online').pipe(mapTo(true)),
+        fromEvent(window, 'offline').pipe(mapTo(false))
+    ).pipe(distinctUntilChanged());
+
+    public isOnline(): boolean {
+        return navigator.onLine;
+    }
+}
@@ -0,0 +1,17 @@
+import { Observable } from 'rxjs';
+
+/**
+ * Provides the network status used by the cache.
+ * Extend this class and provide it in your module to use another source (e.g. the Capacitor Network plugin).
+ */
+export abstract class NetworkStatusProvider {
+    /**
+     * Emits the current network status and every change of it.
+     */
+    public abstract online$: Observable<boolean>;
+
+    /**
+     * Checks if the device is online.
+     */
+    public abstract isOnline(): boolean;
+}
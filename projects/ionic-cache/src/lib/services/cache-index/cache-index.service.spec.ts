@@ -0,0 +1,103 @@
+import { TestBed } from '@angular/core/testing';
+import { CacheStorageService } from '../cache-storage/cache-storage.service';
+import { CacheIndexService } from './cache-index.service';
+
+describe('CacheIndexService', () => {
+    let service: CacheIndexService;
+    let dependencies: {
+        cacheStorageService: jest.Mocked<CacheStorageService>;
+    };
+    const mockItems = [
+        { key: 'recent', value: '"recent"', expires: 1000, type: 'string', groupKey: 'none', lastAccess: 300 },
+        { key: 'oldest', value: '"oldest"', expires: 1000, type: 'string', groupKey: 'movies', lastAccess: 100 },
+        { key: 'older', value: '"older"', expires: 1000, type: 'string', groupKey: 'none', size: 42 }
+    ];
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        dependencies = {
+            cacheStorageService: {
+                all: jest.fn(() => Promise.resolve(mockItems)),
+                get: jest.fn(() => Promise.resolve({ key: '__lastAccess', items: { older: 200 } })),
+                set: jest.fn(() => Promise.resolve())
+            } as any
+        };
+
+        TestBed.configureTestingModule({
+            providers: [CacheIndexService, { provide: CacheStorageService, useValue: dependencies.cacheStorageService }]
+        });
+        service = TestBed.inject(CacheIndexService);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should be created', () => {
+        expect(service).toBeTruthy();
+    });
+
+    describe('getEntries', () => {
+        it('should build the index from the stored items and the persisted last access times', async () => {
+            expect(await service.getEntries()).toEqual([
+                { key: 'oldest', size: 8, groupKey: 'movies', expires: 1000, lastAccess: 100 },
+                { key: 'older', size: 42, groupKey: 'none', expires: 1000, lastAccess: 200 },
+                { key: 'recent', size: 8, groupKey: 'none', expires: 1000, lastAccess: 300 }
+            ]);
+        });
+
+        it('should only read the storage once', async () => {
+            await service.getEntries();
+            await service.getEntries();
+            expect(dependencies.cacheStorageService.all).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('when the index is loaded', () => {
+        beforeEach(() => {
+            return service.getEntries();
+        });
+
+        it('should mark touched items as the most recently used', async () => {
+            await service.touch(['oldest']);
+            expect((await service.getEntries()).map((entry) => entry.key)).toEqual(['older', 'recent', 'oldest']);
+        });
+
+        it('should add stored items', async () => {
+            await service.set({ key: 'new', value: '"new"', expires: 1000, type: 'string', groupKey: 'none' });
+            expect((await service.getEntries()).pop()).toEqual(expect.objectContaining({ key: 'new', size: 5 }));
+        });
+
+        it('should remove items', async () => {
+            await service.remove(['oldest', 'older']);
+            expect((await service.getEntries()).map((entry) => entry.key)).toEqual(['recent']);
+        });
+
+        it('should persist the last access times in a single batch', async () => {
+            await service.touch(['oldest']);
+            await service.touch(['recent']);
+            jest.runAllTimers();
+            await Promise.resolve();
+
+            expect(dependencies.cacheStorageService.set).toHaveBeenCalledTimes(1);
+            expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith('__lastAccess', {
+                items: { recent: expect.any(Number), oldest: expect.any(Number), older: 200 }
+            });
+        });
+
+        it('should rebuild the index after a reset', async () => {
+            service.reset();
+            await service.getEntries();
+            expect(dependencies.cacheStorageService.all).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('when the index is not loaded', () => {
+        it('should not read the storage for changes', async () => {
+            await service.touch(['oldest']);
+            await service.remove(['older']);
+            expect(dependencies.cacheStorageService.all).not.toHaveBeenCalled();
+            expect(dependencies.cacheStorageService.set).not.toHaveBeenCalled();
+        });
+    });
+});
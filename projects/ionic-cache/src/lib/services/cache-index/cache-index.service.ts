@@ -0,0 +1,148 @@
+import { Injectable } from '@angular/core';
+import { getItemSize } from '../../helpers/get-item-size.helper';
+import { CacheIndexEntry } from '../../interfaces/cache-index-entry.interface';
+import { StorageCacheItem } from '../../interfaces/cache-storage-item.interface';
+import { CacheStorageService } from '../cache-storage/cache-storage.service';
+
+/**
+ * Keeps the size, expiry and last access time of the stored items in memory, so that evictions and sweeps don't read
+ * every item.
+ * The index is built from the cache storage the first time it is used, and the last access times are persisted
+ * in batches under their own key, so that reads never write the items themselves.
+ */
+@Injectable()
+export class CacheIndexService {
+    private readonly storageKey = '__lastAccess';
+    private readonly persistDelay = 1000;
+    private entries?: Promise<Map<string, CacheIndexEntry>>;
+    private persistTimeout?: ReturnType<typeof setTimeout>;
+
+    constructor(private cacheStorage: CacheStorageService) {}
+
+    /**
+     * Gets the indexed items, the least recently used first.
+     */
+    public async getEntries(): Promise<CacheIndexEntry[]> {
+        if (!this.entries) {
+            this.entries = this.loadEntries();
+        }
+
+        const entries = await this.entries;
+
+        return Array.from(entries.values()).sort((a, b) => a.lastAccess - b.lastAccess);
+    }
+
+    /**
+     * Adds or replaces a stored item, it is marked as the most recently used.
+     * @param item The raw cache item
+     */
+    public async set(item: StorageCacheItem): Promise<void> {
+        await this.update((entries, lastAccess) =>
+            entries.set(item.key, {
+                key: item.key,
+                size: getItemSize(item),
+                groupKey: item.groupKey,
+                expires: item.expires,
+                lastAccess
+            })
+        );
+    }
+
+    /**
+     * Marks stored items as the most recently used.
+     * @param keys The unique keys
+     */
+    public async touch(keys: string[]): Promise<void> {
+        await this.update((entries, lastAccess) =>
+            keys.filter((key) => entries.has(key)).forEach((key) => (entries.get(key).lastAccess = lastAccess))
+        );
+    }
+
+    /**
+     * Removes items from the index.
+     * @param keys The unique keys
+     */
+    public async remove(keys: string[]): Promise<void> {
+        await this.update((entries) => keys.forEach((key) => entries.delete(key)));
+    }
+
+    /**
+     * Drops the index, e.g. when another tab changed the cache storage.
+     * It is rebuilt from the cache storage the next time it is used.
+     */
+    public reset(): void {
+        this.entries = undefined;
+    }
+
+    /**
+     * Applies a change to the index and schedules the persistence of the last access times.
+     * Nothing is done until the index is used, it is then built from the cache storage which has the change.
+     * @param change The change
+     */
+    private async update(change: (entries: Map<string, CacheIndexEntry>, lastAccess: number) => void): Promise<void> {
+        if (!this.entries) {
+            return;
+        }
+
+        change(await this.entries, new Date().getTime());
+
+        if (!this.persistTimeout) {
+            this.persistTimeout = setTimeout(() => {
+                this.persistTimeout = undefined;
+                this.persist();
+            }, this.persistDelay);
+        }
+    }
+
+    /**
+     * Builds the index from the stored items and the persisted last access times.
+     */
+    private async loadEntries(): Promise<Map<string, CacheIndexEntry>> {
+        const items = await this.cacheStorage.all();
+        const lastAccess = await this.loadLastAccess();
+
+        return new Map(
+            items.map((item) => [
+                item.key,
+                {
+                    key: item.key,
+                    size: getItemSize(item),
+                    groupKey: item.groupKey,
+                    expires: item.expires,
+                    lastAccess: lastAccess[item.key] || item.lastAccess || 0
+                }
+            ])
+        );
+    }
+
+    /**
+     * Reads the persisted last access times.
+     * @returns The last access times by key.
+     */
+    private async loadLastAccess(): Promise<{ [key: string]: number }> {
+        try {
+            const persisted = await this.cacheStorage.get(this.storageKey);
+            return (persisted && persisted.items) || {};
+        } catch (error) {
+            return {};
+        }
+    }
+
+    /**
+     * Writes the last access times to the cache storage.
+     */
+    private async persist(): Promise<void> {
+        if (!this.entries) {
+            return;
+        }
+
+        const items: { [key: string]: number } = {};
+        (await this.entries).forEach((entry) => (items[entry.key] = entry.lastAccess));
+
+        try {
+            await this.cacheStorage.set(this.storageKey, { items });
+        } catch (error) {
+            // the last access time is only used for eviction, so failing to persist it is not critical
+        }
+    }
+}
@@ -0,0 +1,85 @@
+import { TestBed } from '@angular/core/testing';
+import { CONFIG } from '../../constants/config-token.constant';
+import { CacheMemoryService } from './cache-memory.service';
+
+describe('CacheMemoryService', () => {
+    let service: CacheMemoryService;
+    const mockItem = { key: 'key', value: '{}', expires: 1000, type: 'object', groupKey: 'none' };
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({
+            providers: [
+                CacheMemoryService,
+                {
+                    provide: CONFIG,
+                    useValue: { memoryCacheSize: 2 }
+                }
+            ]
+        });
+        service = TestBed.inject(CacheMemoryService);
+    });
+
+    it('should be created', () => {
+        expect(service).toBeTruthy();
+    });
+
+    describe('set', () => {
+        beforeEach(() => {
+            service.set('key', mockItem);
+        });
+
+        it('should keep the entry in memory', () => {
+            expect(service.get('key')).toEqual({ item: mockItem });
+        });
+
+        describe('when the entry limit is exceeded', () => {
+            beforeEach(() => {
+                service.set('second', mockItem);
+                service.get('key');
+                service.set('third', mockItem);
+            });
+
+            it('should drop the least recently used entry', () => {
+                expect(service.get('second')).toBeUndefined();
+            });
+
+            it('should keep the recently used entries', () => {
+                expect(service.get('key')).toBeDefined();
+                expect(service.get('third')).toBeDefined();
+            });
+        });
+
+        describe('when the memory cache is disabled', () => {
+            beforeEach(() => {
+                service['config'].memoryCacheSize = 0;
+                service.set('disabled', mockItem);
+            });
+
+            it('should not keep the entry in memory', () => {
+                expect(service.get('disabled')).toBeUndefined();
+            });
+        });
+    });
+
+    describe('remove', () => {
+        beforeEach(() => {
+            service.set('key', mockItem);
+            service.remove('key');
+        });
+
+        it('should remove the entry', () => {
+            expect(service.get('key')).toBeUndefined();
+        });
+    });
+
+    describe('clear', () => {
+        beforeEach(() => {
+            service.set('key', mockItem);
+            service.clear();
+        });
+
+        it('should remove all entries', () => {
+            expect(service.get('key')).toBeUndefined();
+        });
+    });
+});
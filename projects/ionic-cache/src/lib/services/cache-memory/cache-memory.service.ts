@@ -0,0 +1,62 @@
+import { Inject, Injectable } from '@angular/core';
+import { CONFIG } from '../../constants/config-token.constant';
+import { CacheConfig } from '../../interfaces/cache-config.interface';
+import { CacheMemoryEntry } from '../../interfaces/cache-memory-entry.interface';
+import { StorageCacheItem } from '../../interfaces/cache-storage-item.interface';
+
+@Injectable()
+export class CacheMemoryService {
+    private entries = new Map<string, CacheMemoryEntry>();
+
+    constructor(@Inject(CONFIG) private config: CacheConfig) {}
+
+    /**
+     * Gets an entry from memory and marks it as the most recently used.
+     * @param key The unique key
+     * @returns The entry or undefined if it isn't in memory.
+     */
+    public get(key: string): CacheMemoryEntry | undefined {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+
+        return entry;
+    }
+
+    /**
+     * Keeps an item in memory, it is decoded on every read so that callers never share its data.
+     * When the entry limit is reached the least recently used entry is dropped.
+     * @param key The unique key
+     * @param item The raw cache item
+     */
+    public set(key: string, item: StorageCacheItem): void {
+        const limit = this.config.memoryCacheSize;
+        if (!limit || limit <= 0) {
+            return;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, { item });
+
+        while (this.entries.size > limit) {
+            this.entries.delete(this.entries.keys().next().value);
+        }
+    }
+
+    /**
+     * Removes an entry from memory.
+     * @param key The unique key
+     */
+    public remove(key: string): void {
+        this.entries.delete(key);
+    }
+
+    /**
+     * Removes all entries from memory.
+     */
+    public clear(): void {
+        this.entries.clear();
+    }
+}
@@ -0,0 +1,329 @@
+import { HttpClient, HttpErrorResponse, HttpHeaders, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Injector } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { of, Subject, throwError } from 'rxjs';
+import { CONFIG } from '../../constants/config-token.constant';
+import { defaultConfig } from '../../constants/default-config.contant';
+import { errorMessages } from '../../constants/error-messages.constant';
+import { CacheConflictResolution } from '../../enums/cache-conflict-resolution.enum';
+import { CacheOutboxStatus } from '../../interfaces/cache-outbox-status.interface';
+import { NetworkStatusProvider } from '../../providers/network-status.provider';
+import { CacheService } from '../cache/cache.service';
+import { CacheStorageService } from '../cache-storage/cache-storage.service';
+import { CacheOutboxService } from './cache-outbox.service';
+
+jest.mock('../../helpers/encrypt-value.helper', () => ({
+    encryptValue: jest.fn((value: string) => Promise.resolve(`encrypted:${value}`))
+}));
+jest.mock('../../helpers/decrypt-value.helper', () => ({
+    decryptValue: jest.fn((value: string) => Promise.resolve(value.replace('encrypted:', '')))
+}));
+
+describe('CacheOutboxService', () => {
+    let service: CacheOutboxService;
+    let config: any;
+    let dependencies: {
+        cacheService: jest.Mocked<CacheService>;
+        cacheStorageService: jest.Mocked<CacheStorageService>;
+        networkStatus: { isOnline: jest.Mock; online$: Subject<boolean> };
+        http: { request: jest.Mock };
+    };
+
+    const request = (url: string) =>
+        new HttpRequest('PUT', url, { title: 'new' }, { headers: new HttpHeaders({ Authorization: 'token' }) });
+
+    beforeEach(() => {
+        const stored = new Map<string, any>();
+        config = { ...defaultConfig, outbox: { retryDelay: 1 } };
+        dependencies = {
+            cacheService: {
+                ready: jest.fn(() => Promise.resolve())
+            } as any,
+            cacheStorageService: {
+                get: jest.fn((key: string) => Promise.resolve(stored.has(key) ? stored.get(key) : null)),
+                set: jest.fn((key: string, value: any) => {
+                    stored.set(key, JSON.parse(JSON.stringify(value)));
+                    return Promise.resolve();
+                })
+            } as any,
+            networkStatus: {
+                isOnline: jest.fn(() => false),
+                online$: new Subject<boolean>()
+            },
+            http: {
+                request: jest.fn(() => of(new HttpResponse({ status: 200 })))
+            }
+        };
+
+        TestBed.configureTestingModule({
+            providers: [
+                CacheOutboxService,
+                { provide: CacheService, useValue: dependencies.cacheService },
+                { provide: CacheStorageService, useValue: dependencies.cacheStorageService },
+                { provide: NetworkStatusProvider, useValue: dependencies.networkStatus },
+                { provide: HttpClient, useValue: dependencies.http },
+                { provide: CONFIG, useValue: config }
+            ]
+        });
+        service = TestBed.inject(CacheOutboxService);
+    });
+
+    it('should be created', () => {
+        expect(service).toBeTruthy();
+    });
+
+    describe('when mutations are persisted', () => {
+        it('should load them', async () => {
+            dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve({ mutations: [{ id: '1' }] }));
+            await service['loadMutations']();
+            expect(await service.getMutations()).toEqual([{ id: '1' }]);
+        });
+    });
+
+    describe('when an encryption key is configured', () => {
+        beforeEach(() => {
+            service['config'].encryptionKey = {} as CryptoKey;
+        });
+
+        it('should persist the mutations encrypted', async () => {
+            await service.enqueue(request('https://example.com/movies/1'));
+            const [key, outbox] = dependencies.cacheStorageService.set.mock.calls[0];
+            expect(key).toBe('__outbox');
+            expect(outbox.encrypted).toBe(true);
+            expect(outbox.mutations).toMatch(/^encrypted:/);
+            expect(JSON.parse(outbox.mutations.replace('encrypted:', ''))).toEqual([
+                expect.objectContaining({ url: 'https://example.com/movies/1', body: { title: 'new' } })
+            ]);
+        });
+
+        it('should load the encrypted mutations', async () => {
+            dependencies.cacheStorageService.get.mockReturnValue(
+                Promise.resolve({ mutations: `encrypted:${JSON.stringify([{ id: '1' }])}`, encrypted: true })
+            );
+            await service['loadMutations']();
+            expect(await service.getMutations()).toEqual([{ id: '1' }]);
+        });
+    });
+
+    describe('enqueue', () => {
+        describe('when the device is offline', () => {
+            beforeEach(() => {
+                return service.enqueue(request('https://example.com/movies/1'));
+            });
+
+            it('should persist the mutation', () => {
+                expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith('__outbox', {
+                    mutations: [
+                        expect.objectContaining({
+                            method: 'PUT',
+                            url: 'https://example.com/movies/1',
+                            body: { title: 'new' },
+                            headers: { Authorization: ['token'] },
+                            attempts: 0
+                        })
+                    ]
+                });
+            });
+
+            it('should not send the mutation', () => {
+                expect(dependencies.http.request).not.toHaveBeenCalled();
+            });
+
+            it('should update the status', async () => {
+                const status: CacheOutboxStatus = await new Promise((resolve) => service.status$.subscribe(resolve));
+                expect(status).toEqual({ pending: 1, replaying: false, lastError: undefined });
+            });
+        });
+    });
+
+    describe('when the body is not JSON', () => {
+        const binaryRequest = (body: any) => new HttpRequest('POST', 'https://example.com/files', body);
+
+        const replay = () => {
+            dependencies.networkStatus.isOnline.mockReturnValue(true);
+            return service.replay();
+        };
+
+        it('should encode an ArrayBuffer body and replay it', async () => {
+            const mutation = await service.enqueue(binaryRequest(new Uint8Array([1, 2, 3]).buffer));
+            expect(mutation).toEqual(expect.objectContaining({ body: 'AQID', bodyType: 'arraybuffer' }));
+            await replay();
+            const sent = dependencies.http.request.mock.calls[0][0];
+            expect(new Uint8Array(sent.body)).toEqual(new Uint8Array([1, 2, 3]));
+        });
+
+        it('should encode a Blob body and replay it', async () => {
+            const mutation = await service.enqueue(binaryRequest(new Blob(['data'], { type: 'text/plain' })));
+            expect(mutation).toEqual(
+                expect.objectContaining({ body: 'data:text/plain;base64,ZGF0YQ==', bodyType: 'blob' })
+            );
+            await replay();
+            const sent = dependencies.http.request.mock.calls[0][0];
+            expect(sent.body).toBeInstanceOf(Blob);
+            expect(sent.body.type).toBe('text/plain');
+        });
+
+        it('should reject a FormData body', async () => {
+            await expect(service.enqueue(binaryRequest(new FormData()))).rejects.toThrow(errorMessages.unsupportedBody);
+            expect(await service.getMutations()).toEqual([]);
+        });
+    });
+
+    describe('replay', () => {
+        beforeEach(async () => {
+            await service.enqueue(request('https://example.com/movies/1'));
+            await service.enqueue(request('https://example.com/movies/2'));
+            dependencies.networkStatus.isOnline.mockReturnValue(true);
+        });
+
+        it('should send the mutations in order', async () => {
+            await service.replay();
+            const urls = dependencies.http.request.mock.calls.map(([sent]) => sent.url);
+            expect(urls).toEqual(['https://example.com/movies/1', 'https://example.com/movies/2']);
+            expect(dependencies.http.request.mock.calls[0][0].headers.get('Authorization')).toBe('token');
+            expect(await service.getMutations()).toEqual([]);
+        });
+
+        it('should replay when the device reconnects', async () => {
+            const replay = jest.spyOn(service, 'replay');
+            dependencies.networkStatus.online$.next(true);
+            expect(replay).toHaveBeenCalled();
+        });
+
+        describe('when a mutation fails with a network error', () => {
+            beforeEach(() => {
+                jest.useFakeTimers();
+                dependencies.http.request.mockReturnValueOnce(throwError(new HttpErrorResponse({ status: 0 })));
+            });
+
+            afterEach(() => {
+                jest.useRealTimers();
+            });
+
+            it('should stop replaying and keep the mutations', async () => {
+                await service.replay();
+                expect(dependencies.http.request).toHaveBeenCalledTimes(1);
+                const mutations = await service.getMutations();
+                expect(mutations).toHaveLength(2);
+                expect(mutations[0].attempts).toBe(1);
+            });
+
+            it('should retry after the backoff delay', async () => {
+                const replay = jest.spyOn(service, 'replay');
+                await service.replay();
+                jest.advanceTimersByTime(1000);
+                expect(replay).toHaveBeenCalledTimes(2);
+            });
+
+            it('should not retry before the backoff delay when another mutation is queued', async () => {
+                await service.replay();
+                await service.enqueue(request('https://example.com/movies/3'));
+                expect(dependencies.http.request).toHaveBeenCalledTimes(1);
+                expect(await service.getMutations()).toHaveLength(3);
+            });
+
+            it('should discard the mutation after the maximum number of retries', async () => {
+                service['config'].outbox.maxRetries = 0;
+                await service.replay();
+                expect(dependencies.http.request).toHaveBeenCalledTimes(2);
+                expect(await service.getMutations()).toEqual([]);
+            });
+        });
+
+        describe('when a mutation is rejected', () => {
+            it('should discard it and go on', async () => {
+                const error = new HttpErrorResponse({ status: 400 });
+                dependencies.http.request.mockReturnValueOnce(throwError(error));
+                await service.replay();
+                expect(dependencies.http.request).toHaveBeenCalledTimes(2);
+                expect(await service.getMutations()).toEqual([]);
+            });
+        });
+
+        describe('when a mutation conflicts', () => {
+            const error = new HttpErrorResponse({ status: 409 });
+
+            beforeEach(() => {
+                dependencies.http.request.mockReturnValueOnce(throwError(error));
+            });
+
+            it('should resolve the conflict with the callback', async () => {
+                const onConflict = jest.fn(() => CacheConflictResolution.Retry);
+                service['config'].outbox.onConflict = onConflict;
+                await service.replay();
+                expect(onConflict).toHaveBeenCalledWith(
+                    expect.objectContaining({ url: 'https://example.com/movies/1' }),
+                    error
+                );
+                expect(await service.getMutations()).toHaveLength(2);
+            });
+
+            it('should discard the mutation without callback', async () => {
+                await service.replay();
+                expect(await service.getMutations()).toEqual([]);
+            });
+        });
+    });
+
+    describe('when the outbox is shared by several tabs', () => {
+        const urls = () => dependencies.http.request.mock.calls.map(([sent]) => sent.url);
+        let otherTab: CacheOutboxService;
+
+        beforeEach(async () => {
+            const held = new Map<string, Promise<any>>();
+            (navigator as any).locks = {
+                request: (name: string, callback: () => Promise<any>) => {
+                    const result = (held.get(name) || Promise.resolve()).then(() => callback());
+                    held.set(
+                        name,
+                        result.catch(() => undefined)
+                    );
+                    return result;
+                }
+            };
+
+            await service.enqueue(request('https://example.com/movies/1'));
+            await service.enqueue(request('https://example.com/movies/2'));
+            otherTab = new CacheOutboxService(
+                dependencies.cacheService,
+                dependencies.cacheStorageService,
+                dependencies.networkStatus as any,
+                TestBed.inject(Injector),
+                config
+            );
+        });
+
+        afterEach(() => {
+            delete (navigator as any).locks;
+        });
+
+        it('should send every mutation once', async () => {
+            dependencies.networkStatus.isOnline.mockReturnValue(true);
+            await Promise.all([service.replay(), otherTab.replay()]);
+            expect(urls()).toEqual(['https://example.com/movies/1', 'https://example.com/movies/2']);
+            expect(await otherTab.getMutations()).toEqual([]);
+        });
+
+        it('should keep the mutations queued by every tab', async () => {
+            await Promise.all([
+                service.enqueue(request('https://example.com/movies/3')),
+                otherTab.enqueue(request('https://example.com/movies/4'))
+            ]);
+            expect((await service.getMutations()).map((mutation) => mutation.url)).toEqual([
+                'https://example.com/movies/1',
+                'https://example.com/movies/2',
+                'https://example.com/movies/3',
+                'https://example.com/movies/4'
+            ]);
+        });
+    });
+
+    describe('clear', () => {
+        it('should remove all the mutations', async () => {
+            await service.enqueue(request('https://example.com/movies/1'));
+            await service.clear();
+            expect(await service.getMutations()).toEqual([]);
+            expect(dependencies.cacheStorageService.set).toHaveBeenLastCalledWith('__outbox', { mutations: [] });
+        });
+    });
+});
@@ -0,0 +1,329 @@
+import { Inject, Injectable, Injector } from '@angular/core';
+import { HttpClient, HttpErrorResponse, HttpHeaders, HttpRequest, HttpResponse } from '@angular/common/http';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { CONFIG } from '../../constants/config-token.constant';
+import { errorMessages } from '../../constants/error-messages.constant';
+import { CacheConflictResolution } from '../../enums/cache-conflict-resolution.enum';
+import { encodeHttpHeaders } from '../../helpers/encode-http-headers.helper';
+import { convertBlobToBase64 } from '../../helpers/convert-blob-to-base64.helper';
+import { convertBase64ToBlob } from '../../helpers/convert-base64-to-blob.helper';
+import { arrayBufferToBase64 } from '../../helpers/array-buffer-to-base64.helper';
+import { base64ToArrayBuffer } from '../../helpers/base64-to-array-buffer.helper';
+import { encryptValue } from '../../helpers/encrypt-value.helper';
+import { decryptValue } from '../../helpers/decrypt-value.helper';
+import { getEncryptionKey } from '../../helpers/get-encryption-key.helper';
+import { withLock } from '../../helpers/with-lock.helper';
+import { CacheConfig } from '../../interfaces/cache-config.interface';
+import { CacheMutation } from '../../interfaces/cache-mutation.interface';
+import { CacheOutboxStatus } from '../../interfaces/cache-outbox-status.interface';
+import { NetworkStatusProvider } from '../../providers/network-status.provider';
+import { CacheService } from '../cache/cache.service';
+import { CacheStorageService } from '../cache-storage/cache-storage.service';
+
+/**
+ * Queues mutations while the device is offline and replays them in order when it is back online.
+ * The outbox is shared by the tabs of the origin, only one tab at a time changes or replays it.
+ */
+@Injectable()
+export class CacheOutboxService {
+    private readonly storageKey = '__outbox';
+    private readonly queueLock: string;
+    private readonly replayLock: string;
+    private mutations: CacheMutation[] = [];
+    private replaying = false;
+    private retryTimeout?: ReturnType<typeof setTimeout>;
+    private statusSubject = new BehaviorSubject<CacheOutboxStatus>({ pending: 0, replaying: false });
+    private loaded: Promise<void>;
+
+    /**
+     * Emits the status of the outbox whenever it changes.
+     */
+    public status$: Observable<CacheOutboxStatus> = this.statusSubject.asObservable();
+
+    constructor(
+        private cacheService: CacheService,
+        private cacheStorage: CacheStorageService,
+        private networkStatus: NetworkStatusProvider,
+        private injector: Injector,
+        @Inject(CONFIG) private config: CacheConfig
+    ) {
+        this.queueLock = `ionic-cache:${config.keyPrefix}:outbox`;
+        this.replayLock = `ionic-cache:${config.keyPrefix}:outbox-replay`;
+        this.loaded = this.loadMutations();
+        this.networkStatus.online$.pipe(filter((online) => online)).subscribe(() => this.replay());
+    }
+
+    /**
+     * Gets the queued mutations, in the order they will be replayed.
+     */
+    public async getMutations(): Promise<CacheMutation[]> {
+        await this.loaded;
+        await this.refreshMutations();
+
+        return [...this.mutations];
+    }
+
+    /**
+     * Adds a request to the outbox, it is sent right away when the device is online.
+     * Blob and ArrayBuffer bodies are encoded as base64, FormData and URLSearchParams bodies are rejected.
+     * @param request The mutation request
+     * @returns The queued mutation.
+     */
+    public async enqueue(request: HttpRequest<any>): Promise<CacheMutation> {
+        await this.loaded;
+
+        const mutation: CacheMutation = {
+            id: `${Date.now()}-${Math.random().toString(36).substr(2)}`,
+            method: request.method,
+            url: request.urlWithParams,
+            ...(await this.encodeBody(request.body)),
+            headers: encodeHttpHeaders('headers', request.headers),
+            responseType: request.responseType,
+            createdAt: Date.now(),
+            attempts: 0
+        };
+
+        await this.updateMutations((mutations) => [...mutations, mutation]);
+
+        // while a retry is scheduled the mutation waits for it, so that the backoff delay is kept
+        if (this.networkStatus.isOnline() && !this.retryTimeout) {
+            this.replay();
+        }
+
+        return mutation;
+    }
+
+    /**
+     * Removes a mutation from the outbox.
+     * @param id The id of the mutation
+     */
+    public async remove(id: string): Promise<void> {
+        await this.loaded;
+        await this.updateMutations((mutations) => mutations.filter((mutation) => mutation.id !== id));
+    }
+
+    /**
+     * Removes all the mutations from the outbox.
+     */
+    public async clear(): Promise<void> {
+        await this.loaded;
+        await this.updateMutations(() => []);
+    }
+
+    /**
+     * Sends the queued mutations in order.
+     * Replaying stops at the first mutation which has to be retried, it is retried after a backoff delay.
+     * When another tab is replaying, the replay waits for it and only sends the mutations it left.
+     * @returns A promise which resolves when the replay stops.
+     */
+    public async replay(): Promise<void> {
+        await this.loaded;
+
+        if (this.replaying || !this.networkStatus.isOnline()) {
+            return;
+        }
+
+        clearTimeout(this.retryTimeout);
+        this.retryTimeout = undefined;
+        this.replaying = true;
+        this.emitStatus();
+
+        try {
+            await withLock(this.replayLock, async () => {
+                await this.refreshMutations();
+
+                let next = true;
+                while (next && this.mutations.length) {
+                    next = await this.send(this.mutations[0]);
+                }
+            });
+        } finally {
+            this.replaying = false;
+            this.emitStatus();
+        }
+    }
+
+    /**
+     * Sends a mutation.
+     * @param mutation The mutation
+     * @returns Whether replaying can go on with the next mutation.
+     */
+    private async send(mutation: CacheMutation): Promise<boolean> {
+        const { maxRetries = 5, retryDelay = 2, onConflict } = this.config.outbox || {};
+
+        try {
+            const http = this.injector.get(HttpClient);
+            await http
+                .request(
+                    new HttpRequest(mutation.method, mutation.url, this.decodeBody(mutation), {
+                        headers: new HttpHeaders(mutation.headers),
+                        responseType: mutation.responseType
+                    })
+                )
+                .pipe(filter((event) => event instanceof HttpResponse))
+                .toPromise();
+
+            await this.remove(mutation.id);
+
+            return true;
+        } catch (error) {
+            this.emitStatus({ mutation, error });
+
+            let resolution = this.isRetryable(error) ? CacheConflictResolution.Retry : CacheConflictResolution.Discard;
+            if (this.isConflict(error)) {
+                resolution = onConflict ? await onConflict(mutation, error) : CacheConflictResolution.Discard;
+            }
+
+            const attempts = mutation.attempts + 1;
+            if (resolution === CacheConflictResolution.Discard || attempts > maxRetries) {
+                await this.remove(mutation.id);
+
+                return true;
+            }
+
+            await this.updateMutations((mutations) =>
+                mutations.map((queued) => (queued.id === mutation.id ? { ...queued, attempts } : queued))
+            );
+            this.retryTimeout = setTimeout(() => this.replay(), retryDelay * 2 ** (attempts - 1) * 1000);
+
+            return false;
+        }
+    }
+
+    /**
+     * Encodes the body of a request, so that it can be persisted as JSON.
+     * @param body The request body
+     * @returns The encoded body and its type, the type is omitted for bodies which are sent as JSON.
+     */
+    private async encodeBody(body: any): Promise<Pick<CacheMutation, 'body' | 'bodyType'>> {
+        if (body instanceof Blob) {
+            return { body: await convertBlobToBase64(body), bodyType: 'blob' };
+        }
+
+        if (body instanceof ArrayBuffer) {
+            return { body: arrayBufferToBase64(body), bodyType: 'arraybuffer' };
+        }
+
+        if (body instanceof FormData || body instanceof URLSearchParams) {
+            throw new Error(errorMessages.unsupportedBody);
+        }
+
+        return { body };
+    }
+
+    /**
+     * Decodes the body of a mutation.
+     * @param mutation The mutation
+     * @returns The request body.
+     */
+    private decodeBody({ body, bodyType }: CacheMutation): any {
+        if (bodyType === 'blob') {
+            return convertBase64ToBlob(body);
+        }
+
+        return bodyType === 'arraybuffer' ? base64ToArrayBuffer(body) : body;
+    }
+
+    /**
+     * Returns whether or not the server rejected the mutation because of a conflict.
+     */
+    private isConflict(error: any): boolean {
+        return error instanceof HttpErrorResponse && (error.status === 409 || error.status === 412);
+    }
+
+    /**
+     * Returns whether or not the mutation may succeed later.
+     * Network errors, timeouts, rate limits and server errors are retried.
+     */
+    private isRetryable(error: any): boolean {
+        return (
+            !(error instanceof HttpErrorResponse) ||
+            error.status === 0 ||
+            error.status === 408 ||
+            error.status === 429 ||
+            error.status >= 500
+        );
+    }
+
+    /**
+     * Loads the mutations persisted in the cache storage.
+     */
+    private async loadMutations(): Promise<void> {
+        await this.cacheService.ready();
+        await this.refreshMutations();
+    }
+
+    /**
+     * Reloads the mutations from the cache storage, since other tabs may have changed them.
+     */
+    private async refreshMutations(): Promise<void> {
+        try {
+            this.mutations = await this.readMutations();
+        } catch (error) {
+            console.error(errorMessages.outbox, error);
+        }
+
+        this.emitStatus();
+    }
+
+    /**
+     * Changes the persisted mutations while holding the lock of the outbox, so that no change of another tab is lost.
+     * @param change Returns the changed mutations
+     */
+    private async updateMutations(change: (mutations: CacheMutation[]) => CacheMutation[]): Promise<void> {
+        await withLock(this.queueLock, async () => {
+            await this.refreshMutations();
+            this.mutations = change(this.mutations);
+            await this.saveMutations();
+        });
+    }
+
+    /**
+     * Persists the mutations in the cache storage, they are encrypted when an encryption key is configured.
+     */
+    private async saveMutations(): Promise<void> {
+        this.emitStatus();
+
+        try {
+            const encryptionKey = await getEncryptionKey(this.config);
+            const outbox = encryptionKey
+                ? { mutations: await encryptValue(JSON.stringify(this.mutations), encryptionKey), encrypted: true }
+                : { mutations: this.mutations };
+
+            await this.cacheStorage.set(this.storageKey, outbox);
+        } catch (error) {
+            console.error(errorMessages.outbox, error);
+        }
+    }
+
+    /**
+     * Reads the mutations persisted in the cache storage, they are decrypted when the outbox is encrypted.
+     * @returns The persisted mutations.
+     */
+    private async readMutations(): Promise<CacheMutation[]> {
+        const outbox = await this.cacheStorage.get(this.storageKey);
+        if (!outbox || !outbox.mutations) {
+            return [];
+        }
+
+        if (!outbox.encrypted) {
+            return outbox.mutations;
+        }
+
+        const encryptionKey = await getEncryptionKey(this.config);
+        if (!encryptionKey) {
+            throw new Error(errorMessages.noEncryptionKey);
+        }
+
+        return JSON.parse(await decryptValue(outbox.mutations, encryptionKey));
+    }
+
+    /**
+     * Emits the current status of the outbox.
+     * @param lastError The last error, defaults to the previous one.
+     */
+    private emitStatus(lastError = this.statusSubject.value.lastError): void {
+        this.statusSubject.next({ pending: this.mutations.length, replaying: this.replaying, lastError });
+    }
+}
@@ -1,17 +1,159 @@
-test.skip('CacheStorageService', () => test.todo);
-// import { TestBed } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+import { Drivers } from '@ionic/storage';
+import { CONFIG } from '../../constants/config-token.constant';
+import { MemoryStorageAdapter } from '../../adapters/memory-storage.adapter';
+import { CacheStorageService } from './cache-storage.service';
 
-// import { CacheStorageService } from './cache-storage.service';
+describe('CacheStorageService', () => {
+    let service: CacheStorageService;
+    let storage: MemoryStorageAdapter;
+    const mockItem = { value: '{}', expires: 1000, type: 'object', groupKey: 'none' };
 
-// describe('CacheStorageService', () => {
-//     let service: CacheStorageService;
+    beforeEach(() => {
+        storage = new MemoryStorageAdapter();
 
-//     beforeEach(() => {
-//         TestBed.configureTestingModule({});
-//         service = TestBed.inject(CacheStorageService);
-//     });
+        TestBed.configureTestingModule({
+            providers: [
+                CacheStorageService,
+                {
+                    provide: CONFIG,
+                    useValue: { keyPrefix: 'prefix/', storage }
+                }
+            ]
+        });
+        service = TestBed.inject(CacheStorageService);
+    });
 
-//     it('should be created', () => {
-//         expect(service).toBeTruthy();
-//     });
-// });
+    it('should be created', () => {
+        expect(service).toBeTruthy();
+    });
+
+    describe('set', () => {
+        beforeEach(() => {
+            return service.set('key', mockItem);
+        });
+
+        it('should store the item with the prefixed key', async () => {
+            expect(await storage.get('prefix/key')).toEqual(mockItem);
+        });
+    });
+
+    describe('get', () => {
+        describe('when the item exists', () => {
+            beforeEach(() => {
+                return storage.set('prefix/key', mockItem);
+            });
+
+            it('should return the item with its key', async () => {
+                expect(await service.get('key')).toEqual({ key: 'key', ...mockItem });
+            });
+        });
+
+        describe('when the item does not exist', () => {
+            it('should return null', async () => {
+                expect(await service.get('key')).toBeNull();
+            });
+        });
+    });
+
+    describe('remove', () => {
+        beforeEach(async () => {
+            await storage.set('prefix/key', mockItem);
+            return service.remove('key');
+        });
+
+        it('should remove the item from storage', async () => {
+            expect(await storage.exists('prefix/key')).toBe(false);
+        });
+    });
+
+    describe('getMany', () => {
+        beforeEach(() => {
+            return storage.set('prefix/first', mockItem);
+        });
+
+        it('should return the items in the order of the keys, null for missing ones', async () => {
+            expect(await service.getMany(['missing', 'first'])).toEqual([null, { key: 'first', ...mockItem }]);
+        });
+    });
+
+    describe('setMany', () => {
+        beforeEach(() => {
+            return service.setMany([
+                { key: 'first', value: mockItem },
+                { key: 'second', value: mockItem }
+            ]);
+        });
+
+        it('should store the items with the prefixed keys', async () => {
+            expect(await storage.get('prefix/first')).toEqual(mockItem);
+            expect(await storage.get('prefix/second')).toEqual(mockItem);
+        });
+    });
+
+    describe('removeMany', () => {
+        beforeEach(async () => {
+            await storage.set('prefix/first', mockItem);
+            await storage.set('prefix/second', mockItem);
+            return service.removeMany(['first', 'second']);
+        });
+
+        it('should remove the items from storage', async () => {
+            expect(await storage.exists('prefix/first')).toBe(false);
+            expect(await storage.exists('prefix/second')).toBe(false);
+        });
+    });
+
+    describe('exists', () => {
+        beforeEach(() => {
+            return storage.set('prefix/key', mockItem);
+        });
+
+        it('should return true when the item exists', async () => {
+            expect(await service.exists('key')).toBe(true);
+        });
+
+        it('should return false when the item does not exist', async () => {
+            expect(await service.exists('other')).toBe(false);
+        });
+    });
+
+    describe('all', () => {
+        beforeEach(async () => {
+            await storage.set('prefix/key', mockItem);
+            await storage.set('prefix/invalid', { value: '{}' });
+            await storage.set('other/key', mockItem);
+        });
+
+        it('should only return the cached items with the key prefix', async () => {
+            expect(await service.all()).toEqual([{ key: 'key', ...mockItem }]);
+        });
+    });
+
+    describe('default storage', () => {
+        const storageConfig = (config: any) => new CacheStorageService(config)['storage']['storage']['_config'];
+
+        it('should use Ionic Storage with the default database name and driver order', () => {
+            expect(storageConfig({ keyPrefix: '' })).toEqual(
+                expect.objectContaining({
+                    name: '__ionicCache',
+                    storeName: '_ionickv',
+                    driverOrder: [Drivers.IndexedDB, Drivers.LocalStorage]
+                })
+            );
+        });
+
+        it('should use the Ionic Storage options of the config', () => {
+            expect(
+                storageConfig({
+                    keyPrefix: '',
+                    storageName: 'tenant-1',
+                    storeName: 'cache',
+                    driverOrder: [Drivers.IndexedDB]
+                })
+            ).toEqual(
+                expect.objectContaining({ name: 'tenant-1', storeName: 'cache', driverOrder: [Drivers.IndexedDB] })
+            );
+        });
+    });
+});
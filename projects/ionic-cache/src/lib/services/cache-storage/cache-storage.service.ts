@@ -1,14 +1,24 @@
 import { Inject, Injectable } from '@angular/core';
-import { Storage } from '@ionic/storage-angular';
-import { CONFIG } from '../../cache.module';
+import { CONFIG } from '../../constants/config-token.constant';
+import { CacheStorageAdapter } from '../../adapters/cache-storage.adapter';
+import { IonicStorageAdapter } from '../../adapters/ionic-storage.adapter';
 import { CacheConfig } from '../../interfaces/cache-config.interface';
+import { CacheStorageEntry } from '../../interfaces/cache-storage-entry.interface';
 import { StorageCacheItem } from '../../interfaces/cache-storage-item.interface';
 
 @Injectable()
 export class CacheStorageService {
-    constructor(private storage: Storage, @Inject(CONFIG) private config: CacheConfig) {}
+    private storage: CacheStorageAdapter;
 
-    public create(): Promise<Storage> {
+    constructor(@Inject(CONFIG) private config: CacheConfig) {
+        this.storage = config.storage || this.createIonicStorage();
+    }
+
+    public get supportsBinary(): boolean {
+        return this.storage.supportsBinary;
+    }
+
+    public create(): Promise<void> {
         return this.storage.create();
     }
 
@@ -26,18 +36,41 @@ export class CacheStorageService {
     }
 
     public async exists(key: string): Promise<boolean> {
-        return !!(await this.storage.get(this.buildKey(key)));
+        return this.storage.exists(this.buildKey(key));
+    }
+
+    public async getMany(keys: string[]): Promise<any[]> {
+        const values = await this.storage.getMany(keys.map((key) => this.buildKey(key)));
+        return values.map((value, index) => (!!value ? Object.assign({ key: keys[index] }, value) : null));
+    }
+
+    public async setMany(entries: CacheStorageEntry[]): Promise<void> {
+        return this.storage.setMany(entries.map((entry) => ({ key: this.buildKey(entry.key), value: entry.value })));
+    }
+
+    public async removeMany(keys: string[]): Promise<void> {
+        return this.storage.removeMany(keys.map((key) => this.buildKey(key)));
     }
 
     public async all(): Promise<StorageCacheItem[]> {
-        const items: StorageCacheItem[] = [];
-        await this.storage.forEach((val: any, key: string) => {
-            if (this.isCachedItem(key, val)) {
-                items.push(Object.assign({ key: this.debuildKey(key) }, val));
-            }
-        });
+        const entries = await this.storage.all();
+
+        return entries
+            .filter((entry) => this.isCachedItem(entry.key, entry.value))
+            .map((entry) => Object.assign({ key: this.debuildKey(entry.key) }, entry.value));
+    }
 
-        return items;
+    /**
+     * Creates the default storage with the Ionic Storage options of the config.
+     */
+    private createIonicStorage(): IonicStorageAdapter {
+        const { storageName, storeName, driverOrder } = this.config;
+
+        return new IonicStorageAdapter({
+            ...(storageName && { name: storageName }),
+            ...(storeName && { storeName }),
+            ...(driverOrder && { driverOrder })
+        });
     }
 
     /**
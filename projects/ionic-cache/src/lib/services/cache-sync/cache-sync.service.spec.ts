@@ -0,0 +1,139 @@
+import { TestBed } from '@angular/core/testing';
+import { Subject } from 'rxjs';
+import { CONFIG } from '../../constants/config-token.constant';
+import { defaultConfig } from '../../constants/default-config.contant';
+import { CacheEventType } from '../../enums/cache-event-type.enum';
+import { CacheEvent } from '../../interfaces/cache-event.interface';
+import { CacheService } from '../cache/cache.service';
+import { CacheSyncService } from './cache-sync.service';
+
+class MockBroadcastChannel {
+    static instances: MockBroadcastChannel[] = [];
+    public postMessage = jest.fn();
+    public close = jest.fn();
+    private listeners: ((message: any) => void)[] = [];
+
+    constructor(public name: string) {
+        MockBroadcastChannel.instances.push(this);
+    }
+
+    public addEventListener(type: string, listener: (message: any) => void): void {
+        this.listeners.push(listener);
+    }
+
+    public removeEventListener(type: string, listener: (message: any) => void): void {
+        this.listeners = this.listeners.filter((l) => l !== listener);
+    }
+
+    public receive(data: any): void {
+        this.listeners.forEach((listener) => listener({ data }));
+    }
+}
+
+describe('CacheSyncService', () => {
+    let service: CacheSyncService;
+    let config: any;
+    let dependencies: {
+        cacheService: { events: Subject<CacheEvent>; applyRemoteEvent: jest.Mock };
+    };
+
+    const createService = () => {
+        TestBed.configureTestingModule({
+            providers: [
+                CacheSyncService,
+                { provide: CacheService, useValue: dependencies.cacheService },
+                { provide: CONFIG, useValue: config }
+            ]
+        });
+        service = TestBed.inject(CacheSyncService);
+    };
+
+    beforeEach(() => {
+        MockBroadcastChannel.instances = [];
+        (window as any).BroadcastChannel = MockBroadcastChannel;
+        config = { ...defaultConfig, keyPrefix: 'app-', crossTabSync: true };
+        dependencies = {
+            cacheService: {
+                events: new Subject<CacheEvent>(),
+                applyRemoteEvent: jest.fn(() => Promise.resolve())
+            }
+        };
+    });
+
+    afterEach(() => {
+        delete (window as any).BroadcastChannel;
+    });
+
+    describe('when cross-tab sync is enabled', () => {
+        let channel: MockBroadcastChannel;
+
+        beforeEach(() => {
+            createService();
+            channel = MockBroadcastChannel.instances[0];
+        });
+
+        it('should open a channel for the key prefix', () => {
+            expect(service.enabled).toBe(true);
+            expect(channel.name).toBe('ionic-cache:app-');
+        });
+
+        it('should post the local events without their data', () => {
+            dependencies.cacheService.events.next({
+                type: CacheEventType.Saved,
+                key: 'key',
+                groupKey: 'none',
+                data: {}
+            });
+            expect(channel.postMessage).toHaveBeenCalledWith({
+                type: CacheEventType.Saved,
+                key: 'key',
+                groupKey: 'none',
+                tags: undefined
+            });
+        });
+
+        it('should not post expired or remote events', () => {
+            dependencies.cacheService.events.next({ type: CacheEventType.Expired, key: 'key' });
+            dependencies.cacheService.events.next({ type: CacheEventType.ClearedAll, remote: true });
+            expect(channel.postMessage).not.toHaveBeenCalled();
+        });
+
+        it('should apply the events received from the other tabs', () => {
+            channel.receive({ type: CacheEventType.GroupCleared, groupKey: 'movies' });
+            expect(dependencies.cacheService.applyRemoteEvent).toHaveBeenCalledWith({
+                type: CacheEventType.GroupCleared,
+                groupKey: 'movies'
+            });
+        });
+
+        it('should close the channel when destroyed', () => {
+            service.ngOnDestroy();
+            dependencies.cacheService.events.next({ type: CacheEventType.ClearedAll });
+            expect(channel.close).toHaveBeenCalled();
+            expect(channel.postMessage).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('when cross-tab sync is disabled', () => {
+        beforeEach(() => {
+            config.crossTabSync = false;
+            createService();
+        });
+
+        it('should not open a channel', () => {
+            expect(service.enabled).toBe(false);
+            expect(MockBroadcastChannel.instances).toHaveLength(0);
+        });
+    });
+
+    describe('when BroadcastChannel is not supported', () => {
+        beforeEach(() => {
+            delete (window as any).BroadcastChannel;
+            createService();
+        });
+
+        it('should not open a channel', () => {
+            expect(service.enabled).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,72 @@
+import { Inject, Injectable, OnDestroy } from '@angular/core';
+import { fromEvent, Subscription } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { CONFIG } from '../../constants/config-token.constant';
+import { CacheEventType } from '../../enums/cache-event-type.enum';
+import { CacheConfig } from '../../interfaces/cache-config.interface';
+import { CacheEvent } from '../../interfaces/cache-event.interface';
+import { CacheService } from '../cache/cache.service';
+
+/**
+ * Announces saves, removals and clears to the other tabs using the same key prefix, with a BroadcastChannel.
+ * The events received from the other tabs are applied to the cache service.
+ */
+@Injectable()
+export class CacheSyncService implements OnDestroy {
+    private readonly syncedEvents = [
+        CacheEventType.Saved,
+        CacheEventType.Removed,
+        CacheEventType.GroupCleared,
+        CacheEventType.ClearedAll
+    ];
+    private channel?: BroadcastChannel;
+    private subscription = new Subscription();
+
+    constructor(private cacheService: CacheService, @Inject(CONFIG) private config: CacheConfig) {
+        if (config.crossTabSync && typeof BroadcastChannel !== 'undefined') {
+            this.start();
+        }
+    }
+
+    /**
+     * Whether or not the events are synchronized with the other tabs.
+     */
+    public get enabled(): boolean {
+        return !!this.channel;
+    }
+
+    public ngOnDestroy(): void {
+        this.subscription.unsubscribe();
+
+        if (this.channel) {
+            this.channel.close();
+            this.channel = undefined;
+        }
+    }
+
+    /**
+     * Opens the channel of the key prefix, then posts the local events and applies the remote ones.
+     */
+    private start(): void {
+        const channel = new BroadcastChannel(`ionic-cache:${this.config.keyPrefix}`);
+        this.channel = channel;
+
+        this.subscription.add(
+            this.cacheService.events
+                .pipe(filter((event) => !event.remote && this.syncedEvents.includes(event.type)))
+                .subscribe((event) => channel.postMessage(this.toMessage(event)))
+        );
+        this.subscription.add(
+            fromEvent<MessageEvent>(channel, 'message').subscribe((message) =>
+                this.cacheService.applyRemoteEvent(message.data)
+            )
+        );
+    }
+
+    /**
+     * Strips the data of an event, it is read from the shared storage by the other tabs.
+     */
+    private toMessage({ type, key, groupKey, tags }: CacheEvent): CacheEvent {
+        return { type, key, groupKey, tags };
+    }
+}
@@ -0,0 +1,89 @@
+import { of } from 'rxjs';
+import { CacheStrategy } from '../../enums/cache-strategy.enum';
+import { CacheNamespace } from './cache-namespace';
+import { CacheService } from './cache.service';
+
+interface Movie {
+    title: string;
+}
+
+describe('CacheNamespace', () => {
+    let namespace: CacheNamespace<Movie>;
+    let dependencies: {
+        cacheService: jest.Mocked<CacheService>;
+    };
+
+    beforeEach(() => {
+        dependencies = {
+            cacheService: {
+                getItem: jest.fn(() => Promise.resolve({ title: 'Alien' })),
+                saveItem: jest.fn(() => Promise.resolve()),
+                getOrSetItem: jest.fn(() => Promise.resolve({ title: 'Alien' })),
+                load: jest.fn(() => of({ title: 'Alien' })),
+                removeItem: jest.fn(() => Promise.resolve()),
+                removeItemsByKeys: jest.fn(() => Promise.resolve([])),
+                getRawItems: jest.fn(() =>
+                    Promise.resolve([{ key: 'movies:1' }, { key: 'series:1' }, { key: 'movies:2' }])
+                )
+            } as any
+        };
+
+        namespace = new CacheNamespace<Movie>(dependencies.cacheService, 'movies', { ttl: 60, groupKey: 'catalog' });
+    });
+
+    describe('get', () => {
+        it('should get the prefixed key', async () => {
+            expect(await namespace.get('1')).toEqual({ title: 'Alien' });
+            expect(dependencies.cacheService.getItem).toHaveBeenCalledWith('movies:1');
+        });
+    });
+
+    describe('set', () => {
+        it('should save the item with the defaults of the namespace', async () => {
+            await namespace.set('1', { title: 'Alien' });
+            expect(dependencies.cacheService.saveItem).toHaveBeenCalledWith(
+                'movies:1',
+                { title: 'Alien' },
+                'catalog',
+                60
+            );
+        });
+
+        it('should save the item with a custom TTL', async () => {
+            await namespace.set('1', { title: 'Alien' }, 10);
+            expect(dependencies.cacheService.saveItem).toHaveBeenCalledWith(
+                'movies:1',
+                { title: 'Alien' },
+                'catalog',
+                10
+            );
+        });
+    });
+
+    describe('getOrSet', () => {
+        it('should use the defaults of the namespace', async () => {
+            const factory = () => Promise.resolve({ title: 'Alien' });
+            await namespace.getOrSet('1', factory);
+            expect(dependencies.cacheService.getOrSetItem).toHaveBeenCalledWith('movies:1', factory, 'catalog', 60);
+        });
+    });
+
+    describe('load', () => {
+        it('should merge the options with the defaults of the namespace', () => {
+            const observable = of({ title: 'Alien' });
+            namespace.load('1', observable, { strategy: CacheStrategy.NetworkFirst, ttl: 10 });
+            expect(dependencies.cacheService.load).toHaveBeenCalledWith('movies:1', observable, {
+                strategy: CacheStrategy.NetworkFirst,
+                groupKey: 'catalog',
+                ttl: 10
+            });
+        });
+    });
+
+    describe('clear', () => {
+        it('should only remove the items of the namespace', async () => {
+            await namespace.clear();
+            expect(dependencies.cacheService.removeItemsByKeys).toHaveBeenCalledWith(['movies:1', 'movies:2']);
+        });
+    });
+});
@@ -0,0 +1,90 @@
+import { Observable } from 'rxjs';
+import { CacheLoadOptions } from '../../interfaces/cache-load-options.interface';
+import { CacheNamespaceOptions } from '../../interfaces/cache-namespace-options.interface';
+import { CacheService } from './cache.service';
+
+/**
+ * A typed slice of the cache, created with CacheService.namespace.
+ * Keys are prefixed with the name of the namespace, and the TTL and group key of the namespace are used by default.
+ */
+export class CacheNamespace<T = any> {
+    private readonly prefix: string;
+
+    constructor(
+        private cache: CacheService,
+        public readonly name: string,
+        private options: CacheNamespaceOptions = {}
+    ) {
+        this.prefix = `${name}:`;
+    }
+
+    /**
+     * Gets an item of the namespace.
+     * @param key The key in the namespace
+     * @returns A promise which resolves with the data.
+     */
+    public get(key: string): Promise<T> {
+        return this.cache.getItem<T>(this.buildKey(key));
+    }
+
+    /**
+     * Saves an item in the namespace.
+     * @param key The key in the namespace
+     * @param data The data to store
+     * @param ttl The TTL in seconds, defaults to the TTL of the namespace
+     * @returns The saved data
+     */
+    public set(key: string, data: T, ttl: number = this.options.ttl): Promise<any> {
+        return this.cache.saveItem(this.buildKey(key), data, this.options.groupKey, ttl);
+    }
+
+    /**
+     * Gets an item of the namespace, or saves the data of the factory if it is missing.
+     * @param key The key in the namespace
+     * @param factory The factory to update the value with
+     * @param ttl The TTL in seconds, defaults to the TTL of the namespace
+     * @returns A promise which resolves with the data.
+     */
+    public getOrSet(key: string, factory: () => Promise<T>, ttl: number = this.options.ttl): Promise<T> {
+        return this.cache.getOrSetItem<T>(this.buildKey(key), factory, this.options.groupKey, ttl);
+    }
+
+    /**
+     * Loads an item of the namespace from the cache or the observable.
+     * @param key The key in the namespace
+     * @param observable The observable with the data
+     * @param options The strategy and options, default to the ones of the namespace
+     * @returns An observable with the cached or network data.
+     */
+    public load(key: string, observable: Observable<T>, options: CacheLoadOptions = {}): Observable<T> {
+        const { ttl, groupKey } = this.options;
+
+        return this.cache.load<T>(this.buildKey(key), observable, { ttl, groupKey, ...options });
+    }
+
+    /**
+     * Removes an item of the namespace.
+     * @param key The key in the namespace
+     */
+    public remove(key: string): Promise<any> {
+        return this.cache.removeItem(this.buildKey(key));
+    }
+
+    /**
+     * Removes all the items of the namespace.
+     */
+    public async clear(): Promise<any> {
+        const items = await this.cache.getRawItems();
+
+        return this.cache.removeItemsByKeys(
+            items.filter((item) => item.key.startsWith(this.prefix)).map((item) => item.key)
+        );
+    }
+
+    /**
+     * Prefixes the key with the name of the namespace.
+     */
+    private buildKey(key: string): string {
+        return this.prefix + key;
+    }
+}
@@ -1,37 +1,95 @@
+import { HttpHeaders, HttpResponse } from '@angular/common/http';
+import { NgZone } from '@angular/core';
 import { TestBed } from '@angular/core/testing';
+import { defer, Observable, of, Subject, throwError } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import { CONFIG } from '../../constants/config-token.constant';
+import { defaultConfig } from '../../constants/default-config.contant';
 import { errorMessages } from '../../constants/error-messages.constant';
+import { CacheStrategy } from '../../enums/cache-strategy.enum';
+import { CacheEventType } from '../../enums/cache-event-type.enum';
+import { CacheEvent } from '../../interfaces/cache-event.interface';
 import { convertBlobToBase64 } from '../../helpers/convert-blob-to-base64.helper';
 import { CacheStorageService } from '../cache-storage/cache-storage.service';
+import { CacheMemoryService } from '../cache-memory/cache-memory.service';
+import { CacheIndexService } from '../cache-index/cache-index.service';
+import { MemoryStorageAdapter } from '../../adapters/memory-storage.adapter';
+import { NetworkStatusProvider } from '../../providers/network-status.provider';
 import { CacheService } from './cache.service';
 
+jest.mock('../../helpers/encrypt-value.helper', () => ({
+    encryptValue: jest.fn((value: string) => Promise.resolve(`encrypted:${value}`))
+}));
+jest.mock('../../helpers/decrypt-value.helper', () => ({
+    decryptValue: jest.fn((value: string) => Promise.resolve(value.replace('encrypted:', '')))
+}));
+jest.mock('../../helpers/is-compression-supported.helper', () => ({
+    isCompressionSupported: jest.fn(() => true)
+}));
+jest.mock('../../helpers/compress-value.helper', () => ({
+    compressValue: jest.fn(() => Promise.resolve('compressed'))
+}));
+jest.mock('../../helpers/decompress-value.helper', () => ({
+    decompressValue: jest.fn(() => Promise.resolve(JSON.stringify('data')))
+}));
+
 describe('CacheService', () => {
     let service: CacheService;
     let dependencies: {
         cacheStorageService: jest.Mocked<CacheStorageService>;
+        cacheMemoryService: jest.Mocked<CacheMemoryService>;
+        networkStatus: { isOnline: jest.Mock; online$: Subject<boolean> };
     };
 
     beforeEach(() => {
         dependencies = {
             cacheStorageService: {
                 create: jest.fn(),
-                set: jest.fn(),
-                remove: jest.fn(),
+                set: jest.fn(() => Promise.resolve()),
+                remove: jest.fn(() => Promise.resolve()),
                 get: jest.fn(),
+                getMany: jest.fn(() => Promise.resolve([])),
+                setMany: jest.fn(() => Promise.resolve()),
+                removeMany: jest.fn(() => Promise.resolve()),
                 exists: jest.fn(),
-                all: jest.fn()
-            } as any
+                all: jest.fn(() => Promise.resolve([]))
+            } as any,
+            cacheMemoryService: {
+                get: jest.fn(),
+                set: jest.fn(),
+                remove: jest.fn(),
+                clear: jest.fn()
+            } as any,
+            networkStatus: {
+                isOnline: jest.fn(() => true),
+                online$: new Subject<boolean>()
+            }
         };
 
         TestBed.configureTestingModule({
             providers: [
                 CacheService,
+                CacheIndexService,
                 {
                     provide: CacheStorageService,
                     useValue: dependencies.cacheStorageService
+                },
+                {
+                    provide: CacheMemoryService,
+                    useValue: dependencies.cacheMemoryService
+                },
+                {
+                    provide: NetworkStatusProvider,
+                    useValue: dependencies.networkStatus
+                },
+                {
+                    provide: CONFIG,
+                    useValue: { ...defaultConfig }
                 }
             ]
         });
         service = TestBed.inject(CacheService);
+        return service.ready();
     });
 
     it('should be created', () => {
@@ -128,9 +186,20 @@ describe('CacheService', () => {
                         value: mockDataJson,
                         expires: expect.any(Number),
                         type: 'object',
-                        groupKey: 'none'
+                        groupKey: 'none',
+                        tags: ['none'],
+                        lastAccess: expect.any(Number),
+                        size: expect.any(Number),
+                        version: 1
                     });
                 });
+
+                it('should keep the item in memory', () => {
+                    expect(dependencies.cacheMemoryService.set).toHaveBeenCalledWith(
+                        mockKey,
+                        expect.objectContaining({ key: mockKey, type: 'object', value: JSON.stringify(mockData) })
+                    );
+                });
             });
 
             describe('when saving a httpResponse', () => {
@@ -152,7 +221,11 @@ describe('CacheService', () => {
                         value: mockDataJson,
                         expires: expect.any(Number),
                         type: 'response',
-                        groupKey: 'none'
+                        groupKey: 'none',
+                        tags: ['none'],
+                        lastAccess: expect.any(Number),
+                        size: expect.any(Number),
+                        version: 1
                     });
                 });
             });
@@ -171,12 +244,102 @@ describe('CacheService', () => {
                         value: mockDataJson,
                         expires: expect.any(Number),
                         type: 'text/html',
-                        groupKey: 'none'
+                        groupKey: 'none',
+                        tags: ['none'],
+                        lastAccess: expect.any(Number),
+                        size: expect.any(Number),
+                        version: 1
                     });
                 });
             });
         });
 
+        describe('when a storage limit is configured', () => {
+            const mockStorageItems = [
+                { key: 'recent', value: '"recent"', lastAccess: 300, size: 8 },
+                { key: 'oldest', value: '"oldest"', lastAccess: 100, size: 8 },
+                { key: 'older', value: '"older"', lastAccess: 200, size: 7 }
+            ];
+
+            beforeEach(() => {
+                dependencies.cacheStorageService.all.mockReturnValue(Promise.resolve(mockStorageItems as any));
+            });
+
+            describe('when the entry limit would be exceeded', () => {
+                beforeEach(() => {
+                    service['config'].maxEntries = 3;
+                    return service.saveItem(mockKey, 'new');
+                });
+
+                it('should remove the least recently used item', () => {
+                    expect(dependencies.cacheStorageService.removeMany).toHaveBeenCalledWith(['oldest']);
+                });
+            });
+
+            describe('when the byte limit would be exceeded', () => {
+                beforeEach(() => {
+                    service['config'].maxBytes = 15;
+                    return service.saveItem(mockKey, 'new');
+                });
+
+                it('should remove the least recently used items until the item fits', () => {
+                    expect(dependencies.cacheStorageService.removeMany).toHaveBeenCalledWith(['oldest', 'older']);
+                });
+            });
+
+            describe('when the limit is not exceeded', () => {
+                beforeEach(() => {
+                    service['config'].maxEntries = 10;
+                    return service.saveItem(mockKey, 'new');
+                });
+
+                it('should not remove any items', () => {
+                    expect(dependencies.cacheStorageService.removeMany).not.toHaveBeenCalled();
+                });
+            });
+
+            describe('when saving several items', () => {
+                beforeEach(async () => {
+                    service['config'].maxEntries = 10;
+                    dependencies.cacheStorageService.all.mockClear();
+                    await service.saveItem(mockKey, 'new');
+                    await service.saveItem('other', 'new');
+                });
+
+                it('should only read the stored items once', () => {
+                    expect(dependencies.cacheStorageService.all).toHaveBeenCalledTimes(1);
+                });
+            });
+
+            describe('when an item is read', () => {
+                beforeEach(async () => {
+                    service['config'].maxEntries = 4;
+                    await service.saveItem(mockKey, 'new');
+                    dependencies.cacheStorageService.set.mockClear();
+                    dependencies.cacheStorageService.get.mockReturnValue(
+                        Promise.resolve({
+                            key: 'oldest',
+                            value: '"oldest"',
+                            expires: Date.now() + 1000,
+                            type: 'string'
+                        })
+                    );
+                    await service.getItem('oldest');
+                    await service.saveItem('newer', 'new');
+                });
+
+                it('should not write the item', () => {
+                    expect(dependencies.cacheStorageService.set).not.toHaveBeenCalledWith('oldest', expect.anything());
+                    expect(dependencies.cacheStorageService.setMany).not.toHaveBeenCalled();
+                });
+
+                it('should mark it as the most recently used', () => {
+                    expect(dependencies.cacheStorageService.removeMany).toHaveBeenCalledTimes(1);
+                    expect(dependencies.cacheStorageService.removeMany).toHaveBeenCalledWith(['older']);
+                });
+            });
+        });
+
         describe('when cache is disabled', () => {
             beforeEach(() => {
                 service['cacheEnabled'] = false;
@@ -203,6 +366,48 @@ describe('CacheService', () => {
             it('should remove the item in storage', () => {
                 expect(dependencies.cacheStorageService.remove).toHaveBeenCalledWith(mockKey);
             });
+
+            it('should remove the item from memory', () => {
+                expect(dependencies.cacheMemoryService.remove).toHaveBeenCalledWith(mockKey);
+            });
+        });
+
+        describe('when a storage limit is configured', () => {
+            let cacheStorage: CacheStorageService;
+
+            beforeEach(async () => {
+                const config = { ...defaultConfig, storage: new MemoryStorageAdapter(), maxEntries: 2 };
+                cacheStorage = new CacheStorageService(config);
+                service = new CacheService(
+                    cacheStorage,
+                    new CacheMemoryService(config),
+                    new CacheIndexService(cacheStorage),
+                    dependencies.networkStatus as any,
+                    TestBed.inject(NgZone),
+                    config
+                );
+                await service.ready();
+
+                jest.useFakeTimers();
+                jest.setSystemTime(1000);
+                await service.saveItem('a', 'a');
+                jest.setSystemTime(2000);
+                await service.saveItem('b', 'b');
+                jest.setSystemTime(3000);
+                await service.getItem('a');
+                await service.removeItem('a');
+                jest.setSystemTime(4000);
+                await service.saveItem('c', 'c');
+            });
+
+            afterEach(() => {
+                jest.useRealTimers();
+            });
+
+            it('should not count the removed item against the limit', async () => {
+                const keys = (await cacheStorage.all()).map((item) => item.key);
+                expect(keys).toEqual(['b', 'c']);
+            });
         });
 
         describe('when cache is disabled', () => {
@@ -241,7 +446,7 @@ describe('CacheService', () => {
                 });
 
                 it('should remove songs/electronica/2', () => {
-                    expect(dependencies.cacheStorageService.remove).toHaveBeenCalledWith('songs/electronica/2');
+                    expect(dependencies.cacheStorageService.removeMany).toHaveBeenCalledWith(['songs/electronica/2']);
                 });
             });
         });
@@ -349,7 +554,8 @@ describe('CacheService', () => {
                 beforeEach(() => {
                     mockData = {
                         value: JSON.stringify({ example: 'test' }),
-                        expires: new Date().getTime() + 10000
+                        expires: new Date().getTime() + 10000,
+                        type: 'object'
                     };
                     dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(mockData));
                     return service.getItem(mockKey);
@@ -358,13 +564,76 @@ describe('CacheService', () => {
                 it('should get if the key from storage', () => {
                     expect(dependencies.cacheStorageService.get).toHaveBeenCalledWith(mockKey);
                 });
+
+                it('should keep the item in memory', () => {
+                    expect(dependencies.cacheMemoryService.set).toHaveBeenCalledWith(mockKey, mockData);
+                });
+            });
+
+            describe('when the data is in memory', () => {
+                const mockMemoryData = { example: 'memory' };
+                let result;
+
+                beforeEach(async () => {
+                    dependencies.cacheStorageService.get.mockClear();
+                    dependencies.cacheMemoryService.get.mockReturnValue({
+                        item: {
+                            key: mockKey,
+                            value: JSON.stringify(mockMemoryData),
+                            expires: new Date().getTime() + 10000,
+                            type: 'object',
+                            groupKey: 'none'
+                        }
+                    });
+                    result = await service.getItem(mockKey);
+                });
+
+                it('should return a copy of the data from memory', () => {
+                    expect(result).toEqual(mockMemoryData);
+                    expect(result).not.toBe(mockMemoryData);
+                });
+
+                it('should not read from storage', () => {
+                    expect(dependencies.cacheStorageService.get).not.toHaveBeenCalled();
+                });
+            });
+
+            describe('when the data is changed by the caller', () => {
+                beforeEach(() => {
+                    service['memoryCache'] = new CacheMemoryService({ memoryCacheSize: 10 });
+                });
+
+                it('should not change the data in memory after it is saved', async () => {
+                    const data = { title: 'Alien' };
+                    await service.saveItem(mockKey, data);
+                    data.title = 'Aliens';
+
+                    expect(await service.getItem(mockKey)).toEqual({ title: 'Alien' });
+                });
+
+                it('should not change the data in memory after it is read', async () => {
+                    await service.saveItem(mockKey, { title: 'Alien' });
+                    (await service.getItem(mockKey)).title = 'Aliens';
+
+                    expect(await service.getItem(mockKey)).toEqual({ title: 'Alien' });
+                });
+
+                it('should not keep the meta data of loads in memory', async () => {
+                    await service.saveItem(mockKey, { title: 'Alien' });
+                    await service
+                        .load(mockKey, of(), { strategy: CacheStrategy.CacheOnly, metaKey: 'meta' })
+                        .toPromise();
+
+                    expect(await service.getItem(mockKey)).toEqual({ title: 'Alien' });
+                });
             });
 
             describe('when the data has expired', () => {
                 beforeEach(() => {
                     mockData = {
                         value: JSON.stringify({ example: 'test' }),
-                        expires: new Date().getTime() - 10000
+                        expires: new Date().getTime() - 10000,
+                        type: 'object'
                     };
                     dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(mockData));
                 });
@@ -438,9 +707,1520 @@ describe('CacheService', () => {
                     value: JSON.stringify(mockData),
                     expires: expect.any(Number),
                     type: 'object',
-                    groupKey: 'none'
+                    groupKey: 'none',
+                    tags: ['none'],
+                    lastAccess: expect.any(Number),
+                    size: expect.any(Number),
+                    version: 1
+                });
+            });
+        });
+
+        describe('when the item is requested concurrently', () => {
+            const mockData = { data: true };
+            const factory = jest.fn(() => Promise.resolve(mockData));
+            let results;
+
+            beforeEach(async () => {
+                factory.mockClear();
+                dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(null));
+                results = await Promise.all([
+                    service.getOrSetItem(mockKey, factory),
+                    service.getOrSetItem(mockKey, factory),
+                    service.getOrSetItem(mockKey, factory)
+                ]);
+            });
+
+            it('should only call the factory once', () => {
+                expect(factory).toHaveBeenCalledTimes(1);
+            });
+
+            it('should resolve every call with the factory result', () => {
+                expect(results).toEqual([mockData, mockData, mockData]);
+            });
+
+            it('should only save the item once', () => {
+                expect(dependencies.cacheStorageService.set).toHaveBeenCalledTimes(1);
+            });
+        });
+    });
+
+    describe('load', () => {
+        const mockKey = 'key';
+        const freshItem = {
+            value: JSON.stringify('cached'),
+            expires: new Date().getTime() + 10000,
+            type: 'string',
+            groupKey: 'none'
+        };
+        const expiredItem = { ...freshItem, expires: new Date().getTime() - 10000 };
+        const network = of('network');
+        const failingNetwork = throwError(new Error('offline'));
+
+        const loadAll = (observable, strategy: CacheStrategy) =>
+            service.load(mockKey, observable, { strategy }).pipe(toArray()).toPromise();
+
+        describe('when the strategy is cache first', () => {
+            it('should only emit the cached data when it has not expired', async () => {
+                dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(freshItem));
+                expect(await loadAll(network, CacheStrategy.CacheFirst)).toEqual(['cached']);
+            });
+
+            it('should only emit the network data when the cached data has expired', async () => {
+                dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(expiredItem));
+                expect(await loadAll(network, CacheStrategy.CacheFirst)).toEqual(['network']);
+            });
+
+            it('should save the network data', async () => {
+                dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(null));
+                await loadAll(network, CacheStrategy.CacheFirst);
+                await new Promise((resolve) => setTimeout(resolve));
+                expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith(
+                    mockKey,
+                    expect.objectContaining({ value: JSON.stringify('network') })
+                );
+            });
+        });
+
+        describe('when the strategy is network first', () => {
+            it('should only emit the network data', async () => {
+                dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(freshItem));
+                expect(await loadAll(network, CacheStrategy.NetworkFirst)).toEqual(['network']);
+            });
+
+            it('should emit the expired cached data when the network fails', async () => {
+                dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(expiredItem));
+                expect(await loadAll(failingNetwork, CacheStrategy.NetworkFirst)).toEqual(['cached']);
+            });
+
+            it('should rethrow the network error when nothing is cached', async () => {
+                dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(null));
+                await expect(loadAll(failingNetwork, CacheStrategy.NetworkFirst)).rejects.toThrow('offline');
+            });
+        });
+
+        describe('when the strategy is stale while revalidate', () => {
+            it('should emit the expired cached data and then the network data', async () => {
+                dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(expiredItem));
+                expect(await loadAll(network, CacheStrategy.StaleWhileRevalidate)).toEqual(['cached', 'network']);
+            });
+
+            it('should only emit the network data when nothing is cached', async () => {
+                dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(null));
+                expect(await loadAll(network, CacheStrategy.StaleWhileRevalidate)).toEqual(['network']);
+            });
+        });
+
+        describe('when the strategy is cache only', () => {
+            it('should emit the cached data when it has not expired', async () => {
+                dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(freshItem));
+                expect(await loadAll(network, CacheStrategy.CacheOnly)).toEqual(['cached']);
+            });
+
+            it('should error when the cached data has expired', async () => {
+                dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(expiredItem));
+                await expect(loadAll(network, CacheStrategy.CacheOnly)).rejects.toThrow(
+                    errorMessages.expired + mockKey
+                );
+            });
+        });
+
+        describe('when the strategy is network only', () => {
+            it('should only emit the network data', async () => {
+                dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(freshItem));
+                expect(await loadAll(network, CacheStrategy.NetworkOnly)).toEqual(['network']);
+            });
+
+            it('should not read from the cache', async () => {
+                await loadAll(network, CacheStrategy.NetworkOnly);
+                expect(dependencies.cacheStorageService.get).not.toHaveBeenCalled();
+            });
+        });
+
+        describe('when the item is loaded concurrently', () => {
+            const subscribe = jest.fn();
+            let results;
+
+            beforeEach(async () => {
+                const request = new Observable((subscriber) => {
+                    subscribe();
+                    setTimeout(() => {
+                        subscriber.next('network');
+                        subscriber.complete();
+                    });
+                });
+
+                dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(null));
+                results = await Promise.all([
+                    service.load(mockKey, request).toPromise(),
+                    service.loadFromObservable(mockKey, request).toPromise(),
+                    service.load(mockKey, request, { strategy: CacheStrategy.NetworkOnly }).toPromise()
+                ]);
+            });
+
+            it('should only subscribe to the observable once', () => {
+                expect(subscribe).toHaveBeenCalledTimes(1);
+            });
+
+            it('should emit the network data to every load', () => {
+                expect(results).toEqual(['network', 'network', 'network']);
+            });
+        });
+
+        describe('when cache is disabled', () => {
+            beforeEach(() => {
+                service['cacheEnabled'] = false;
+            });
+
+            it('should return the original observable', () => {
+                expect(service.load(mockKey, network)).toBe(network);
+            });
+        });
+    });
+
+    describe('events', () => {
+        let events: CacheEvent[];
+
+        beforeEach(() => {
+            events = [];
+            service.events.subscribe((event) => events.push(event));
+        });
+
+        describe('when an item is saved', () => {
+            beforeEach(() => {
+                return service.saveItem('key', 'data', 'group');
+            });
+
+            it('should emit a saved event', () => {
+                expect(events).toEqual([
+                    { type: CacheEventType.Saved, key: 'key', groupKey: 'group', tags: ['group'], data: 'data' }
+                ]);
+            });
+        });
+
+        describe('when an item is removed', () => {
+            beforeEach(() => {
+                return service.removeItem('key');
+            });
+
+            it('should emit a removed event', () => {
+                expect(events).toEqual([{ type: CacheEventType.Removed, key: 'key' }]);
+            });
+        });
+
+        describe('when an expired item is read', () => {
+            beforeEach(async () => {
+                dependencies.cacheStorageService.get.mockReturnValue(
+                    Promise.resolve({ value: '{}', expires: new Date().getTime() - 10000, type: 'object' })
+                );
+                await service.getItem('key').catch(() => {});
+            });
+
+            it('should emit an expired event', () => {
+                expect(events).toEqual([{ type: CacheEventType.Expired, key: 'key' }]);
+            });
+        });
+
+        describe('when a group is cleared', () => {
+            beforeEach(() => {
+                dependencies.cacheStorageService.all.mockReturnValue(
+                    Promise.resolve([{ key: 'key', groupKey: 'group' }] as any)
+                );
+                return service.clearGroup('group');
+            });
+
+            it('should emit a removed event for each item and a group cleared event', () => {
+                expect(events).toEqual([
+                    { type: CacheEventType.Removed, key: 'key' },
+                    { type: CacheEventType.GroupCleared, groupKey: 'group' }
+                ]);
+            });
+        });
+
+        describe('when the cache is cleared', () => {
+            beforeEach(() => {
+                dependencies.cacheStorageService.all.mockReturnValue(Promise.resolve([]));
+                return service.clearAll();
+            });
+
+            it('should emit a cleared all event', () => {
+                expect(events).toEqual([{ type: CacheEventType.ClearedAll }]);
+            });
+        });
+    });
+
+    describe('observeItem', () => {
+        const mockKey = 'key';
+        let values: any[];
+
+        describe('when the item exists', () => {
+            beforeEach(async () => {
+                values = [];
+                dependencies.cacheStorageService.get.mockReturnValue(
+                    Promise.resolve({
+                        value: JSON.stringify('current'),
+                        expires: new Date().getTime() + 10000,
+                        type: 'string'
+                    })
+                );
+                service.observeItem(mockKey).subscribe((value) => values.push(value));
+                await new Promise((resolve) => setTimeout(resolve));
+                await service.saveItem(mockKey, 'updated');
+                await service.saveItem('other', 'ignored');
+            });
+
+            it('should emit the current data and every update of the key', () => {
+                expect(values).toEqual(['current', 'updated']);
+            });
+        });
+
+        describe('when the item does not exist', () => {
+            beforeEach(async () => {
+                values = [];
+                dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(null));
+                service.observeItem(mockKey).subscribe((value) => values.push(value));
+                await service.saveItem(mockKey, 'created');
+            });
+
+            it('should only emit the updates', () => {
+                expect(values).toEqual(['created']);
+            });
+        });
+    });
+
+    describe('saveItem with tags', () => {
+        beforeEach(() => {
+            return service.saveItem('key', 'data', ['user:42', 'profile']);
+        });
+
+        it('should save the tags and use the first tag as group key', () => {
+            expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith(
+                'key',
+                expect.objectContaining({ groupKey: 'user:42', tags: ['user:42', 'profile'] })
+            );
+        });
+    });
+
+    describe('clearByTags', () => {
+        const mockStorageItems = [
+            { key: 'profile', groupKey: 'user:42', tags: ['user:42', 'profile'] },
+            { key: 'settings', groupKey: 'user:42', tags: ['user:42'] },
+            { key: 'legacy', groupKey: 'profile' },
+            { key: 'movies', groupKey: 'movies', tags: ['movies'] }
+        ];
+
+        beforeEach(() => {
+            dependencies.cacheStorageService.all.mockReturnValue(Promise.resolve(mockStorageItems as any));
+        });
+
+        describe('when matching any tag', () => {
+            beforeEach(() => {
+                return service.clearByTags(['profile', 'movies']);
+            });
+
+            it('should remove the items with one of the tags', () => {
+                expect(dependencies.cacheStorageService.removeMany).toHaveBeenCalledWith([
+                    'profile',
+                    'legacy',
+                    'movies'
+                ]);
+            });
+        });
+
+        describe('when matching all tags', () => {
+            beforeEach(() => {
+                return service.clearByTags(['user:42', 'profile'], 'all');
+            });
+
+            it('should only remove the items with every tag', () => {
+                expect(dependencies.cacheStorageService.removeMany).toHaveBeenCalledWith(['profile']);
+            });
+        });
+
+        describe('when clearing a group', () => {
+            beforeEach(() => {
+                return service.clearGroup('user:42');
+            });
+
+            it('should remove the items tagged with the group key', () => {
+                expect(dependencies.cacheStorageService.removeMany).toHaveBeenCalledWith(['profile', 'settings']);
+            });
+        });
+
+        describe('when cache is disabled', () => {
+            beforeEach(() => {
+                service['cacheEnabled'] = false;
+            });
+
+            it('should return an error', async () => {
+                try {
+                    await service.clearByTags(['profile']);
+                } catch (error) {
+                    expect(error.message).toBe(errorMessages.notEnabled);
+                }
+            });
+        });
+    });
+
+    describe('migrations', () => {
+        const mockStorageItems = [
+            { key: 'legacy', value: '{}', expires: 1000, type: 'object', groupKey: 'movies' },
+            { key: 'current', value: '{}', expires: 1000, type: 'object', groupKey: 'none', tags: [], version: 1 },
+            { key: 'future', value: '{}', expires: 1000, type: 'object', groupKey: 'none', version: 99 }
+        ];
+
+        const mockStoredItems = (items: any[]) => {
+            dependencies.cacheStorageService.all.mockReturnValue(Promise.resolve(items));
+            dependencies.cacheStorageService.get.mockImplementation((key: string) =>
+                Promise.resolve(items.find((item) => item.key === key))
+            );
+        };
+
+        beforeEach(() => {
+            dependencies.cacheStorageService.set.mockClear();
+            mockStoredItems(mockStorageItems);
+        });
+
+        describe('when the items have an older storage format', () => {
+            beforeEach(() => {
+                return service['migrateItems']();
+            });
+
+            it('should upgrade the items to the current version', () => {
+                expect(dependencies.cacheStorageService.set).toHaveBeenCalledTimes(1);
+                expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith('legacy', {
+                    value: '{}',
+                    expires: 1000,
+                    type: 'object',
+                    groupKey: 'movies',
+                    tags: ['movies'],
+                    version: 1
                 });
             });
+
+            it('should remove the items with a newer storage format', () => {
+                expect(dependencies.cacheStorageService.remove).toHaveBeenCalledTimes(1);
+                expect(dependencies.cacheStorageService.remove).toHaveBeenCalledWith('future');
+            });
+        });
+
+        describe('when an item is saved while the items are migrated', () => {
+            beforeEach(() => {
+                service['config'].dataVersion = 2;
+                dependencies.cacheStorageService.get.mockImplementation((key: string) =>
+                    Promise.resolve({ ...mockStorageItems[1], key, dataVersion: 2 })
+                );
+                return service['migrateItems']();
+            });
+
+            it('should keep the saved item', () => {
+                expect(dependencies.cacheStorageService.set).not.toHaveBeenCalled();
+                expect(dependencies.cacheStorageService.remove).not.toHaveBeenCalled();
+            });
+        });
+
+        describe('when a data version is configured', () => {
+            beforeEach(() => {
+                service['config'].dataVersion = 2;
+                mockStoredItems([
+                    { ...mockStorageItems[1], dataVersion: 1 },
+                    { ...mockStorageItems[1], key: 'new', dataVersion: 2 }
+                ]);
+                return service['migrateItems']();
+            });
+
+            it('should remove the items saved with another data version', () => {
+                expect(dependencies.cacheStorageService.remove).toHaveBeenCalledTimes(1);
+                expect(dependencies.cacheStorageService.remove).toHaveBeenCalledWith('current');
+            });
+
+            it('should save new items with the data version', async () => {
+                await service.saveItem('key', 'data');
+                expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith(
+                    'key',
+                    expect.objectContaining({ dataVersion: 2 })
+                );
+            });
+        });
+    });
+
+    describe('encryption', () => {
+        const mockKey = 'key';
+        const encryptionKey = {} as CryptoKey;
+
+        beforeEach(() => {
+            service['config'].encryptionKey = () => Promise.resolve(encryptionKey);
+        });
+
+        describe('when saving an item', () => {
+            beforeEach(() => {
+                return service.saveItem(mockKey, 'data');
+            });
+
+            it('should store the encrypted value', () => {
+                const value = `encrypted:${JSON.stringify('data')}`;
+                expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith(
+                    mockKey,
+                    expect.objectContaining({ value, size: value.length, encrypted: true })
+                );
+            });
+
+            it('should keep the plain value in the memory cache', () => {
+                expect(dependencies.cacheMemoryService.set).toHaveBeenCalledWith(
+                    mockKey,
+                    expect.objectContaining({ value: JSON.stringify('data') })
+                );
+            });
+        });
+
+        describe('when saving a blob', () => {
+            it('should store the encrypted value', async () => {
+                const blob = new Blob(['data'], { type: 'text/plain' });
+                const base64 = await convertBlobToBase64(blob);
+                await service.saveItem(mockKey, blob);
+                expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith(
+                    mockKey,
+                    expect.objectContaining({ value: `encrypted:${JSON.stringify(base64)}`, encrypted: true })
+                );
+            });
+        });
+
+        describe('when reading an encrypted item', () => {
+            beforeEach(() => {
+                dependencies.cacheStorageService.get.mockReturnValue(
+                    Promise.resolve({
+                        key: mockKey,
+                        value: `encrypted:${JSON.stringify('data')}`,
+                        expires: Date.now() + 1000,
+                        type: 'string',
+                        groupKey: 'none',
+                        encrypted: true
+                    })
+                );
+            });
+
+            it('should decrypt the raw item', async () => {
+                const item = await service.getRawItem(mockKey);
+                expect(item.value).toBe(JSON.stringify('data'));
+                expect(item.encrypted).toBeUndefined();
+            });
+
+            it('should decode the decrypted data', async () => {
+                expect(await service.getItem(mockKey)).toBe('data');
+            });
+
+            it('should return an error when no encryption key is configured', async () => {
+                service['config'].encryptionKey = undefined;
+                await expect(service.getRawItem(mockKey)).rejects.toThrow(errorMessages.notFound);
+            });
+        });
+
+        describe('when reading all the raw items', () => {
+            const encryptedItem = {
+                key: mockKey,
+                value: `encrypted:${JSON.stringify('data')}`,
+                expires: Date.now() + 1000,
+                type: 'string',
+                groupKey: 'none',
+                encrypted: true
+            };
+
+            beforeEach(() => {
+                dependencies.cacheStorageService.all.mockReturnValue(Promise.resolve([encryptedItem]));
+            });
+
+            it('should decrypt the items like getRawItem', async () => {
+                const [item] = await service.getRawItems();
+                expect(item.value).toBe(JSON.stringify('data'));
+                expect(item.encrypted).toBeUndefined();
+            });
+
+            it('should keep the items which can not be decrypted', async () => {
+                service['config'].encryptionKey = undefined;
+                expect(await service.getRawItems()).toEqual([encryptedItem]);
+            });
+        });
+    });
+
+    describe('compression', () => {
+        const mockKey = 'key';
+
+        beforeEach(() => {
+            service['config'].compressionThreshold = 10;
+        });
+
+        describe('when the value exceeds the threshold', () => {
+            beforeEach(() => {
+                return service.saveItem(mockKey, 'a long piece of data');
+            });
+
+            it('should store the compressed value', () => {
+                expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith(
+                    mockKey,
+                    expect.objectContaining({ value: 'compressed', size: 'compressed'.length, compressed: true })
+                );
+            });
+
+            it('should keep the uncompressed value in the memory cache', () => {
+                expect(dependencies.cacheMemoryService.set).toHaveBeenCalledWith(
+                    mockKey,
+                    expect.not.objectContaining({ compressed: true })
+                );
+            });
+        });
+
+        describe('when the value is below the threshold', () => {
+            it('should store the value as is', async () => {
+                await service.saveItem(mockKey, 'data');
+                expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith(
+                    mockKey,
+                    expect.objectContaining({ value: JSON.stringify('data') })
+                );
+            });
+        });
+
+        describe('when reading a compressed item', () => {
+            it('should decompress the data', async () => {
+                dependencies.cacheStorageService.get.mockReturnValue(
+                    Promise.resolve({
+                        key: mockKey,
+                        value: 'compressed',
+                        expires: Date.now() + 1000,
+                        type: 'string',
+                        groupKey: 'none',
+                        compressed: true
+                    })
+                );
+                expect(await service.getItem(mockKey)).toBe('data');
+            });
+        });
+    });
+
+    describe('serializers', () => {
+        const mockKey = 'key';
+
+        const roundTrip = async (data: any) => {
+            await service.saveItem(mockKey, data);
+            const [, item] = dependencies.cacheStorageService.set.mock.calls[0];
+            dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve({ key: mockKey, ...item }));
+
+            return { item, result: await service.getItem(mockKey) };
+        };
+
+        it('should restore dates', async () => {
+            const date = new Date(2020, 1, 1);
+            const { item, result } = await roundTrip(date);
+            expect(item.type).toBe('date');
+            expect(result).toEqual(date);
+        });
+
+        it('should restore maps and sets', async () => {
+            expect((await roundTrip(new Map([['a', 1]]))).result).toEqual(new Map([['a', 1]]));
+            dependencies.cacheStorageService.set.mockClear();
+            expect((await roundTrip(new Set([1, 2]))).result).toEqual(new Set([1, 2]));
+        });
+
+        it('should restore the headers of http responses', async () => {
+            const response = new HttpResponse({ body: {}, headers: new HttpHeaders({ ETag: '"v1"' }), url: 'url' });
+            const { result } = await roundTrip(response);
+            expect(result.headers.get('ETag')).toBe('"v1"');
+        });
+
+        it('should restore typed arrays', async () => {
+            const { item, result } = await roundTrip(new Float64Array([1.5, NaN, Infinity]));
+            expect(item.type).toBe('float64array');
+            expect(result).toEqual(new Float64Array([1.5, NaN, Infinity]));
+        });
+
+        describe('when a custom serializer is registered', () => {
+            class Money {
+                constructor(public amount: number, public currency: string) {}
+            }
+
+            beforeEach(() => {
+                service.registerSerializer({
+                    type: 'money',
+                    test: (data) => data instanceof Money,
+                    encode: (data: Money) => `${data.amount} ${data.currency}`,
+                    decode: (value: string) => new Money(Number(value.split(' ')[0]), value.split(' ')[1])
+                });
+            });
+
+            it('should restore the class instance', async () => {
+                const { item, result } = await roundTrip(new Money(10, 'EUR'));
+                expect(item).toEqual(expect.objectContaining({ type: 'money', value: JSON.stringify('10 EUR') }));
+                expect(result).toBeInstanceOf(Money);
+                expect(result).toEqual(new Money(10, 'EUR'));
+            });
+        });
+    });
+
+    describe('http cache headers', () => {
+        const mockKey = 'key';
+        const response = (headers: { [name: string]: string }) =>
+            new HttpResponse({ body: {}, headers: new HttpHeaders(headers), url: 'url' });
+        const savedTTL = () => {
+            const [, item] = dependencies.cacheStorageService.set.mock.calls[0];
+
+            return Math.round((item.expires - Date.now()) / 1000);
+        };
+
+        describe('when the option is disabled', () => {
+            it('should use the default TTL', async () => {
+                await service.saveItem(mockKey, response({ 'Cache-Control': 'max-age=60' }));
+                expect(savedTTL()).toBe(60 * 60);
+            });
+        });
+
+        describe('when the option is enabled', () => {
+            beforeEach(() => {
+                service['config'].httpCacheHeaders = true;
+            });
+
+            it('should use the max-age directive', async () => {
+                await service.saveItem(mockKey, response({ 'Cache-Control': 'public, max-age=60, s-maxage=120' }));
+                expect(savedTTL()).toBe(60);
+            });
+
+            it('should use the s-maxage directive without max-age', async () => {
+                await service.saveItem(mockKey, response({ 'Cache-Control': 's-maxage=120' }));
+                expect(savedTTL()).toBe(120);
+            });
+
+            it('should use the Expires header relative to the Date header', async () => {
+                await service.saveItem(
+                    mockKey,
+                    response({ Date: 'Wed, 21 Oct 2015 07:28:00 GMT', Expires: 'Wed, 21 Oct 2015 07:38:00 GMT' })
+                );
+                expect(savedTTL()).toBe(600);
+            });
+
+            it('should revalidate responses with the no-cache directive', async () => {
+                await service.saveItem(mockKey, response({ 'Cache-Control': 'no-cache, max-age=600' }));
+                expect(savedTTL()).toBeCloseTo(0);
+            });
+
+            it('should subtract the Age header from max-age', async () => {
+                await service.saveItem(mockKey, response({ 'Cache-Control': 'max-age=600', Age: '100' }));
+                expect(savedTTL()).toBe(500);
+            });
+
+            it('should subtract the Age header from the Expires header', async () => {
+                await service.saveItem(
+                    mockKey,
+                    response({
+                        Date: 'Wed, 21 Oct 2015 07:28:00 GMT',
+                        Expires: 'Wed, 21 Oct 2015 07:38:00 GMT',
+                        Age: '100'
+                    })
+                );
+                expect(savedTTL()).toBe(500);
+            });
+
+            it('should not go below zero when the response is older than max-age', async () => {
+                await service.saveItem(mockKey, response({ 'Cache-Control': 'max-age=60', Age: '100' }));
+                expect(savedTTL()).toBeCloseTo(0);
+            });
+
+            it('should use the default TTL without cache headers', async () => {
+                await service.saveItem(mockKey, response({}));
+                expect(savedTTL()).toBe(60 * 60);
+            });
+
+            it('should prefer an explicit TTL', async () => {
+                await service.saveItem(mockKey, response({ 'Cache-Control': 'max-age=60' }), 'none', 30);
+                expect(savedTTL()).toBe(30);
+            });
+
+            it('should not cache responses with the no-store directive', async () => {
+                await service.saveItem(mockKey, response({ 'Cache-Control': 'no-store' }));
+                expect(dependencies.cacheStorageService.set).not.toHaveBeenCalled();
+            });
+        });
+
+        describe('when clamps are configured', () => {
+            beforeEach(() => {
+                service['config'].httpCacheHeaders = { minTTL: 30, maxTTL: 300 };
+            });
+
+            it('should clamp the TTL to the minimum', async () => {
+                await service.saveItem(mockKey, response({ 'Cache-Control': 'no-cache' }));
+                expect(savedTTL()).toBe(30);
+            });
+
+            it('should clamp the TTL to the maximum', async () => {
+                await service.saveItem(mockKey, response({ 'Cache-Control': 'max-age=86400' }));
+                expect(savedTTL()).toBe(300);
+            });
+        });
+    });
+
+    describe('binary data', () => {
+        const mockKey = 'key';
+        const blob = new Blob(['data'], { type: 'text/plain' });
+        const buffer = new Uint8Array([1, 2, 3]).buffer;
+
+        describe('when the storage supports binary values', () => {
+            beforeEach(() => {
+                (service['cacheStorage'] as any).supportsBinary = true;
+            });
+
+            it('should store blobs as is', async () => {
+                await service.saveItem(mockKey, blob);
+                expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith(
+                    mockKey,
+                    expect.objectContaining({ value: blob, type: 'text/plain', size: blob.size })
+                );
+            });
+
+            it('should store array buffers as is', async () => {
+                await service.saveItem(mockKey, buffer);
+                expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith(
+                    mockKey,
+                    expect.objectContaining({ value: buffer, type: 'arraybuffer', size: 3 })
+                );
+            });
+
+            it('should return the stored blob', async () => {
+                dependencies.cacheStorageService.get.mockReturnValue(
+                    Promise.resolve({ key: mockKey, value: blob, expires: Date.now() + 1000, type: 'text/plain' })
+                );
+                expect(await service.getItem(mockKey)).toBe(blob);
+            });
+
+            it('should encode the values when they are encrypted', async () => {
+                service['config'].encryptionKey = {} as CryptoKey;
+                await service.saveItem(mockKey, buffer);
+                expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith(
+                    mockKey,
+                    expect.objectContaining({ value: expect.stringContaining('encrypted:'), type: 'arraybuffer' })
+                );
+            });
+        });
+
+        describe('when the storage does not support binary values', () => {
+            const roundTrip = async (data: any) => {
+                await service.saveItem(mockKey, data);
+                const [, item] = dependencies.cacheStorageService.set.mock.calls[0];
+                dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve({ key: mockKey, ...item }));
+
+                return { item, result: await service.getItem(mockKey) };
+            };
+
+            it('should encode blobs as base64 and restore them', async () => {
+                const { item, result } = await roundTrip(blob);
+                expect(typeof item.value).toBe('string');
+                expect(result).toBeInstanceOf(Blob);
+                expect(result.type).toBe('text/plain');
+                expect(await convertBlobToBase64(result)).toBe(await convertBlobToBase64(blob));
+            });
+
+            it('should encode array buffers as base64 and restore them', async () => {
+                const { item, result } = await roundTrip(buffer);
+                expect(item.type).toBe('arraybuffer');
+                expect(new Uint8Array(result)).toEqual(new Uint8Array([1, 2, 3]));
+            });
+        });
+    });
+
+    describe('sweeper', () => {
+        const expiredItems = [1, 2, 3].map((i) => ({
+            key: `expired-${i}`,
+            value: '{}',
+            expires: Date.now() - 1000,
+            type: 'object',
+            groupKey: 'none'
+        }));
+
+        beforeEach(() => {
+            dependencies.cacheStorageService.all.mockReturnValue(
+                Promise.resolve([...expiredItems, { ...expiredItems[0], key: 'fresh', expires: Date.now() + 1000 }])
+            );
+        });
+
+        afterEach(() => {
+            service.stopSweeper();
+        });
+
+        describe('when sweeping', () => {
+            it('should remove the expired items in batches', async () => {
+                await service['sweepExpired']({ batchSize: 2 });
+                expect(dependencies.cacheStorageService.removeMany.mock.calls).toEqual([
+                    [['expired-1', 'expired-2']],
+                    [['expired-3']]
+                ]);
+            });
+
+            it('should not read the stored items on every sweep', async () => {
+                dependencies.cacheStorageService.all.mockClear();
+                await service['sweepExpired']({});
+                await service['sweepExpired']({});
+                expect(dependencies.cacheStorageService.all).toHaveBeenCalledTimes(1);
+            });
+
+            it('should emit expired events', async () => {
+                const events: CacheEvent[] = [];
+                service.events.subscribe((event) => events.push(event));
+                await service['sweepExpired']({});
+                expect(events.filter((event) => event.type === CacheEventType.Expired)).toHaveLength(3);
+            });
+
+            it('should not remove items when offline', async () => {
+                jest.spyOn(service, 'isOnline').mockReturnValue(false);
+                await service['sweepExpired']({});
+                expect(dependencies.cacheStorageService.removeMany).not.toHaveBeenCalled();
+            });
+
+            it('should remove items when offline if configured', async () => {
+                jest.spyOn(service, 'isOnline').mockReturnValue(false);
+                await service['sweepExpired']({ sweepOffline: true });
+                expect(dependencies.cacheStorageService.removeMany).toHaveBeenCalledWith([
+                    'expired-1',
+                    'expired-2',
+                    'expired-3'
+                ]);
+            });
+        });
+
+        describe('when started', () => {
+            let sweepExpired: jest.SpyInstance;
+
+            beforeEach(() => {
+                jest.useFakeTimers();
+                sweepExpired = jest.spyOn(service as any, 'sweepExpired').mockReturnValue(Promise.resolve());
+                service.startSweeper({ interval: 60 });
+            });
+
+            afterEach(() => {
+                jest.useRealTimers();
+            });
+
+            it('should sweep on the interval', () => {
+                jest.advanceTimersByTime(60 * 1000);
+                expect(sweepExpired).toHaveBeenCalledTimes(1);
+            });
+
+            it('should sweep when the app resumes', () => {
+                document.dispatchEvent(new Event('resume'));
+                expect(sweepExpired).toHaveBeenCalledTimes(1);
+            });
+
+            it('should observe the triggers outside of the Angular zone', () => {
+                const zone = TestBed.inject(NgZone);
+                const runOutsideAngular = jest.spyOn(zone, 'runOutsideAngular');
+                service.startSweeper({ interval: 60 });
+                expect(runOutsideAngular).toHaveBeenCalled();
+            });
+
+            it('should sweep inside the Angular zone', () => {
+                let inAngularZone: boolean;
+                sweepExpired.mockImplementation(() => {
+                    inAngularZone = NgZone.isInAngularZone();
+                    return Promise.resolve();
+                });
+                TestBed.inject(NgZone).run(() => service.startSweeper({ interval: 60 }));
+                jest.advanceTimersByTime(60 * 1000);
+                expect(inAngularZone).toBe(true);
+            });
+
+            it('should stop sweeping when stopped', () => {
+                service.stopSweeper();
+                jest.advanceTimersByTime(60 * 1000);
+                document.dispatchEvent(new Event('resume'));
+                expect(sweepExpired).not.toHaveBeenCalled();
+            });
+        });
+    });
+
+    describe('network status', () => {
+        it('should read the online status from the provider', () => {
+            dependencies.networkStatus.isOnline.mockReturnValue(false);
+            expect(service.isOnline()).toBe(false);
+        });
+
+        describe('when refreshing on reconnect', () => {
+            const mockKey = 'key';
+            let source: jest.Mock;
+
+            beforeEach(async () => {
+                service = new CacheService(
+                    dependencies.cacheStorageService,
+                    dependencies.cacheMemoryService,
+                    new CacheIndexService(dependencies.cacheStorageService),
+                    dependencies.networkStatus as any,
+                    TestBed.inject(NgZone),
+                    { ...defaultConfig, refreshOnReconnect: true }
+                );
+                await service.ready();
+
+                dependencies.cacheStorageService.get.mockReturnValue(
+                    Promise.resolve({
+                        key: mockKey,
+                        value: JSON.stringify('stale'),
+                        expires: Date.now() - 1000,
+                        type: 'string',
+                        groupKey: 'none'
+                    })
+                );
+                source = jest
+                    .fn()
+                    .mockReturnValueOnce(throwError(new Error('offline')))
+                    .mockReturnValue(of('fresh'));
+                const observable = defer(() => source());
+
+                await service
+                    .loadFromDelayedObservable(mockKey, observable)
+                    .toPromise()
+                    .catch(() => undefined);
+            });
+
+            it('should refetch the stale items when the device reconnects', async () => {
+                dependencies.networkStatus.online$.next(true);
+                await new Promise((resolve) => setTimeout(resolve));
+                expect(source).toHaveBeenCalledTimes(2);
+                expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith(
+                    mockKey,
+                    expect.objectContaining({ value: JSON.stringify('fresh') })
+                );
+            });
+
+            it('should not refetch when the device goes offline', () => {
+                dependencies.networkStatus.online$.next(false);
+                expect(source).toHaveBeenCalledTimes(1);
+            });
+
+            it('should only refetch once', () => {
+                dependencies.networkStatus.online$.next(true);
+                dependencies.networkStatus.online$.next(true);
+                expect(source).toHaveBeenCalledTimes(2);
+            });
+
+            describe('when expired data is served while offline', () => {
+                const reconnect = async () => {
+                    dependencies.networkStatus.isOnline.mockReturnValue(true);
+                    dependencies.networkStatus.online$.next(true);
+                    await new Promise((resolve) => setTimeout(resolve));
+                };
+
+                beforeEach(() => {
+                    service['staleSources'].clear();
+                    source.mockReset().mockReturnValue(of('fresh'));
+                    dependencies.networkStatus.isOnline.mockReturnValue(false);
+                });
+
+                it('should refetch the delayed observable when the device reconnects', async () => {
+                    const result = await service
+                        .loadFromDelayedObservable(
+                            mockKey,
+                            defer(() => source())
+                        )
+                        .toPromise();
+                    await new Promise((resolve) => setTimeout(resolve));
+                    expect(result).toBe('stale');
+                    expect(source).not.toHaveBeenCalled();
+
+                    await reconnect();
+                    expect(source).toHaveBeenCalledTimes(1);
+                    expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith(
+                        mockKey,
+                        expect.objectContaining({ value: JSON.stringify('fresh') })
+                    );
+                });
+
+                it('should refetch cache first loads when the device reconnects', async () => {
+                    expect(
+                        await service
+                            .load(
+                                mockKey,
+                                defer(() => source())
+                            )
+                            .toPromise()
+                    ).toBe('stale');
+                    await new Promise((resolve) => setTimeout(resolve));
+
+                    await reconnect();
+                    expect(source).toHaveBeenCalledTimes(1);
+                });
+            });
+        });
+    });
+
+    describe('stats', () => {
+        const mockItem = (expires: number, groupKey = 'movies') => ({
+            key: 'key',
+            value: JSON.stringify('data'),
+            expires,
+            type: 'string',
+            groupKey
+        });
+
+        it('should count hits by group', async () => {
+            dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(mockItem(Date.now() + 1000)));
+            await service.getItem('key');
+            const stats = await service.getStats();
+            expect(stats.hits).toBe(1);
+            expect(stats.groups.movies).toEqual(expect.objectContaining({ hits: 1, misses: 0 }));
+        });
+
+        it('should count misses', async () => {
+            dependencies.cacheStorageService.get.mockReturnValueOnce(Promise.resolve(null));
+            dependencies.cacheStorageService.get.mockReturnValueOnce(Promise.resolve(mockItem(Date.now() - 1000)));
+            await service.getItem('key').catch(() => undefined);
+            await service.getItem('key').catch(() => undefined);
+            const stats = await service.getStats();
+            expect(stats.misses).toBe(2);
+            expect(stats.groups.movies.misses).toBe(1);
+        });
+
+        it('should count stale serves', async () => {
+            dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(mockItem(Date.now() - 1000)));
+            await service.load('key', of('network'), { strategy: CacheStrategy.StaleWhileRevalidate }).toPromise();
+            expect((await service.getStats()).stale).toBe(1);
+        });
+
+        it('should count writes and errors', async () => {
+            await service.saveItem('key', 'data', 'movies');
+            dependencies.cacheStorageService.set.mockReturnValueOnce(Promise.reject(new Error()));
+            await service.saveItem('key', 'data', 'movies').catch(() => undefined);
+            const stats = await service.getStats();
+            expect(stats.groups.movies).toEqual(expect.objectContaining({ writes: 1, errors: 1 }));
+        });
+
+        it('should count evictions', async () => {
+            service['config'].maxEntries = 1;
+            dependencies.cacheStorageService.all.mockReturnValue(
+                Promise.resolve([{ ...mockItem(Date.now() + 1000, 'series'), key: 'old' }])
+            );
+            await service.saveItem('key', 'data');
+            expect((await service.getStats()).groups.series.evictions).toBe(1);
+        });
+
+        it('should report the entries and their size', async () => {
+            dependencies.cacheStorageService.all.mockReturnValue(
+                Promise.resolve([mockItem(0), { ...mockItem(0), key: 'other', size: 10 }])
+            );
+            const stats = await service.getStats();
+            expect(stats.entries).toBe(2);
+            expect(stats.bytes).toBe(JSON.stringify('data').length + 10);
+        });
+
+        it('should reset the counters', async () => {
+            await service.saveItem('key', 'data', 'movies');
+            service.resetStats();
+            const stats = await service.getStats();
+            expect(stats.writes).toBe(0);
+            expect(stats.groups).toEqual({});
+        });
+    });
+
+    describe('snapshots', () => {
+        const mockItems = [
+            {
+                key: 'movie',
+                value: '{}',
+                expires: 2000,
+                type: 'object',
+                groupKey: 'movies',
+                tags: ['movies'],
+                version: 1
+            },
+            {
+                key: 'serie',
+                value: '[]',
+                expires: 2000,
+                type: 'object',
+                groupKey: 'series',
+                tags: ['series'],
+                version: 1
+            }
+        ];
+
+        describe('exportSnapshot', () => {
+            beforeEach(() => {
+                dependencies.cacheStorageService.all.mockReturnValue(Promise.resolve(mockItems));
+            });
+
+            it('should export all the items', async () => {
+                const snapshot = await service.exportSnapshot();
+                expect(snapshot).toEqual({ version: 1, createdAt: expect.any(Number), items: mockItems });
+            });
+
+            it('should filter the items by group', async () => {
+                const snapshot = await service.exportSnapshot({ groupKey: 'series' });
+                expect(snapshot.items).toEqual([mockItems[1]]);
+            });
+
+            it('should filter the items by key', async () => {
+                const snapshot = await service.exportSnapshot({ keys: ['movie'] });
+                expect(snapshot.items).toEqual([mockItems[0]]);
+            });
+
+            it('should decrypt the items', async () => {
+                service['config'].encryptionKey = {} as CryptoKey;
+                dependencies.cacheStorageService.all.mockReturnValue(
+                    Promise.resolve([{ ...mockItems[0], value: 'encrypted:{}', encrypted: true }])
+                );
+                const snapshot = await service.exportSnapshot();
+                expect(snapshot.items).toEqual([mockItems[0]]);
+            });
+
+            it('should encode binary values', async () => {
+                dependencies.cacheStorageService.all.mockReturnValue(
+                    Promise.resolve([{ ...mockItems[0], value: new Uint8Array([1, 2, 3]).buffer, type: 'arraybuffer' }])
+                );
+                const snapshot = await service.exportSnapshot();
+                expect(snapshot.items[0].value).toBe(JSON.stringify('AQID'));
+            });
+        });
+
+        describe('importSnapshot', () => {
+            const snapshot = { version: 1, createdAt: 0, items: mockItems };
+
+            it('should write the items with their original expiry and type in a single batch', async () => {
+                expect(await service.importSnapshot(snapshot)).toBe(2);
+                expect(dependencies.cacheStorageService.setMany).toHaveBeenCalledWith(
+                    mockItems.map(({ key, ...value }) => ({ key, value }))
+                );
+            });
+
+            it('should emit saved events with the decoded data', async () => {
+                const events: CacheEvent[] = [];
+                service.events.subscribe((event) => events.push(event));
+                await service.importSnapshot(snapshot);
+                expect(events).toEqual([
+                    expect.objectContaining({ type: CacheEventType.Saved, key: 'movie', data: {} }),
+                    expect.objectContaining({ type: CacheEventType.Saved, key: 'serie', data: [] })
+                ]);
+            });
+
+            it('should apply the storage limits', async () => {
+                service['config'].maxEntries = 2;
+                dependencies.cacheStorageService.all.mockReturnValue(
+                    Promise.resolve([{ ...mockItems[0], key: 'existing', expires: 3000, lastAccess: 100 }])
+                );
+                await service.importSnapshot(snapshot);
+                expect(dependencies.cacheStorageService.removeMany).toHaveBeenCalledWith(['existing']);
+            });
+
+            it('should accept a JSON string', async () => {
+                expect(await service.importSnapshot(JSON.stringify(snapshot))).toBe(2);
+            });
+
+            it('should upgrade items with an older storage format', async () => {
+                const { tags, version, ...legacy } = mockItems[0];
+                await service.importSnapshot({ ...snapshot, items: [legacy] });
+                expect(dependencies.cacheStorageService.setMany).toHaveBeenCalledWith([
+                    { key: 'movie', value: expect.objectContaining({ tags: ['movies'], version: 1 }) }
+                ]);
+            });
+
+            it('should reject unsupported snapshots', async () => {
+                await expect(service.importSnapshot({ ...snapshot, version: 99 })).rejects.toThrow(
+                    errorMessages.invalidSnapshot
+                );
+            });
+
+            it('should reject snapshots with invalid items', async () => {
+                const invalidItems = [{}, { ...mockItems[0], expires: '2000' }, { ...mockItems[0], value: undefined }];
+                for (const item of invalidItems) {
+                    await expect(service.importSnapshot({ ...snapshot, items: [item] } as any)).rejects.toThrow(
+                        errorMessages.invalidSnapshot
+                    );
+                }
+            });
+
+            it('should reject snapshots with items which cannot be decoded', async () => {
+                await expect(
+                    service.importSnapshot({ ...snapshot, items: [{ ...mockItems[0], value: '{' }] })
+                ).rejects.toThrow(errorMessages.invalidSnapshot);
+            });
+
+            describe('when merging', () => {
+                it('should keep the existing items which expire later', async () => {
+                    dependencies.cacheStorageService.all.mockReturnValue(
+                        Promise.resolve([{ ...mockItems[0], expires: 3000 }])
+                    );
+                    expect(await service.importSnapshot(snapshot, 'merge')).toBe(1);
+                    expect(dependencies.cacheStorageService.setMany).toHaveBeenCalledWith([
+                        { key: 'serie', value: expect.anything() }
+                    ]);
+                });
+            });
+
+            describe('when overwriting', () => {
+                it('should clear the cache first', async () => {
+                    const clearAll = jest.spyOn(service, 'clearAll');
+                    dependencies.cacheStorageService.all.mockReturnValue(
+                        Promise.resolve([{ ...mockItems[0], expires: 3000 }])
+                    );
+                    expect(await service.importSnapshot(snapshot, 'overwrite')).toBe(2);
+                    expect(clearAll).toHaveBeenCalled();
+                });
+
+                it('should not clear the cache when the snapshot is invalid', async () => {
+                    const clearAll = jest.spyOn(service, 'clearAll');
+                    await expect(
+                        service.importSnapshot({ version: 1, items: [{}] } as any, 'overwrite')
+                    ).rejects.toThrow(errorMessages.invalidSnapshot);
+                    expect(clearAll).not.toHaveBeenCalled();
+                });
+            });
+        });
+    });
+
+    describe('prefetch', () => {
+        const freshItem = { key: 'fresh', value: '{}', expires: Date.now() + 60000, type: 'object', groupKey: 'none' };
+
+        beforeEach(() => {
+            dependencies.cacheStorageService.get.mockImplementation((key) =>
+                Promise.resolve(key === 'fresh' ? freshItem : null)
+            );
+        });
+
+        it('should fetch and save the missing items', async () => {
+            const progress = await service
+                .prefetch([
+                    { key: 'movies', factory: () => Promise.resolve(['movie']), groupKey: 'movies', ttl: 60 },
+                    { key: 'series', factory: () => of(['serie']) }
+                ])
+                .pipe(toArray())
+                .toPromise();
+
+            expect(progress[progress.length - 1]).toEqual(
+                expect.objectContaining({ total: 2, fetched: 2, skipped: 0, failed: 0 })
+            );
+            expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith(
+                'movies',
+                expect.objectContaining({ value: JSON.stringify(['movie']), groupKey: 'movies' })
+            );
+            expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith(
+                'series',
+                expect.objectContaining({ value: JSON.stringify(['serie']) })
+            );
+        });
+
+        it('should report the progress of every item', async () => {
+            const progress = await service
+                .prefetch(
+                    [
+                        { key: 'fresh', factory: () => of('data') },
+                        { key: 'failing', factory: () => throwError(new Error()) }
+                    ],
+                    { concurrency: 1 }
+                )
+                .pipe(toArray())
+                .toPromise();
+
+            expect(progress).toEqual([
+                { total: 2, fetched: 0, skipped: 0, failed: 0 },
+                { total: 2, fetched: 0, skipped: 1, failed: 0, key: 'fresh' },
+                { total: 2, fetched: 0, skipped: 1, failed: 1, key: 'failing' }
+            ]);
+        });
+
+        it('should limit the number of concurrent factories', async () => {
+            let running = 0;
+            let maxRunning = 0;
+            const factory = () =>
+                new Promise((resolve) => {
+                    maxRunning = Math.max(maxRunning, ++running);
+                    setTimeout(() => resolve(running--));
+                });
+
+            await service
+                .prefetch(
+                    ['a', 'b', 'c', 'd'].map((key) => ({ key, factory })),
+                    { concurrency: 2 }
+                )
+                .toPromise();
+
+            expect(maxRunning).toBe(2);
+        });
+
+        it('should stop when unsubscribed', async () => {
+            const pending = new Subject<string>();
+            const factory = jest.fn(() => pending);
+            const subscription = service
+                .prefetch(
+                    ['a', 'b'].map((key) => ({ key, factory })),
+                    { concurrency: 1 }
+                )
+                .subscribe();
+
+            await new Promise((resolve) => setTimeout(resolve));
+            subscription.unsubscribe();
+            pending.next('data');
+            pending.complete();
+            await new Promise((resolve) => setTimeout(resolve));
+
+            expect(factory).toHaveBeenCalledTimes(1);
+            expect(dependencies.cacheStorageService.set).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('namespace', () => {
+        it('should create a namespace bound to the service', async () => {
+            const namespace = service.namespace<string>('movies', { ttl: 60 });
+            await namespace.set('1', 'Alien');
+            expect(namespace.name).toBe('movies');
+            expect(dependencies.cacheStorageService.set).toHaveBeenCalledWith(
+                'movies:1',
+                expect.objectContaining({ value: JSON.stringify('Alien') })
+            );
+        });
+    });
+
+    describe('batch operations', () => {
+        const storedItem = (value: any, expires = Date.now() + 1000) => ({
+            value: JSON.stringify(value),
+            expires,
+            type: typeof value,
+            groupKey: 'none'
+        });
+
+        describe('getItems', () => {
+            beforeEach(() => {
+                dependencies.cacheMemoryService.get.mockImplementation((key: string) =>
+                    key === 'memory' ? ({ item: storedItem('cached') } as any) : undefined
+                );
+                dependencies.cacheStorageService.getMany.mockReturnValue(
+                    Promise.resolve([storedItem('stored'), null, storedItem('old', Date.now() - 1000)])
+                );
+            });
+
+            it('should read the missing items from storage in a single batch', async () => {
+                await service.getItems(['memory', 'stored', 'missing', 'expired']);
+                expect(dependencies.cacheStorageService.getMany).toHaveBeenCalledWith(['stored', 'missing', 'expired']);
+                expect(dependencies.cacheStorageService.get).not.toHaveBeenCalled();
+            });
+
+            it('should report the result of every key', async () => {
+                const results = await service.getItems(['memory', 'stored', 'missing', 'expired']);
+                expect(results).toEqual([
+                    { key: 'memory', success: true, data: 'cached' },
+                    { key: 'stored', success: true, data: 'stored' },
+                    { key: 'missing', success: false, error: new Error(errorMessages.notFound + 'missing') },
+                    { key: 'expired', success: false, error: new Error(errorMessages.expired + 'expired') }
+                ]);
+            });
+        });
+
+        describe('saveItems', () => {
+            it('should write the items in a single batch', async () => {
+                const results = await service.saveItems([
+                    { key: 'first', data: 'one' },
+                    { key: 'second', data: 2, groupKey: 'numbers', ttl: 10 }
+                ]);
+
+                expect(results).toEqual([
+                    { key: 'first', success: true },
+                    { key: 'second', success: true }
+                ]);
+                expect(dependencies.cacheStorageService.setMany).toHaveBeenCalledWith([
+                    { key: 'first', value: expect.objectContaining({ value: JSON.stringify('one'), type: 'string' }) },
+                    { key: 'second', value: expect.objectContaining({ value: '2', groupKey: 'numbers' }) }
+                ]);
+                expect(dependencies.cacheStorageService.set).not.toHaveBeenCalled();
+            });
+
+            it('should report the items which cannot be encoded', async () => {
+                const circular: any = {};
+                circular.self = circular;
+
+                const results = await service.saveItems([
+                    { key: 'first', data: 'one' },
+                    { key: 'circular', data: circular }
+                ]);
+
+                expect(results[0]).toEqual({ key: 'first', success: true });
+                expect(results[1]).toEqual({ key: 'circular', success: false, error: expect.any(TypeError) });
+                expect(dependencies.cacheStorageService.setMany).toHaveBeenCalledWith([
+                    { key: 'first', value: expect.anything() }
+                ]);
+            });
+
+            it('should write the items one by one to report which fail when the batch fails', async () => {
+                const error = new Error('quota exceeded');
+                dependencies.cacheStorageService.setMany.mockReturnValue(Promise.reject(new Error('batch')));
+                dependencies.cacheStorageService.set.mockImplementation((key: string) =>
+                    key === 'second' ? Promise.reject(error) : Promise.resolve()
+                );
+
+                expect(
+                    await service.saveItems([
+                        { key: 'first', data: 'one' },
+                        { key: 'second', data: 'two' }
+                    ])
+                ).toEqual([
+                    { key: 'first', success: true },
+                    { key: 'second', success: false, error }
+                ]);
+            });
+        });
+
+        describe('removeItemsByKeys', () => {
+            it('should remove the items in a single batch', async () => {
+                const events: CacheEvent[] = [];
+                service.events.subscribe((event) => events.push(event));
+
+                const results = await service.removeItemsByKeys(['first', 'second']);
+
+                expect(results).toEqual([
+                    { key: 'first', success: true },
+                    { key: 'second', success: true }
+                ]);
+                expect(dependencies.cacheStorageService.removeMany).toHaveBeenCalledWith(['first', 'second']);
+                expect(dependencies.cacheMemoryService.remove).toHaveBeenCalledWith('second');
+                expect(events.map((event) => event.type)).toEqual([CacheEventType.Removed, CacheEventType.Removed]);
+            });
+
+            it('should remove the items one by one to report which fail when the batch fails', async () => {
+                const error = new Error('failed');
+                dependencies.cacheStorageService.removeMany.mockReturnValue(Promise.reject(new Error('batch')));
+                dependencies.cacheStorageService.remove.mockImplementation((key: string) =>
+                    key === 'second' ? Promise.reject(error) : Promise.resolve()
+                );
+
+                expect(await service.removeItemsByKeys(['first', 'second'])).toEqual([
+                    { key: 'first', success: true },
+                    { key: 'second', success: false, error }
+                ]);
+            });
+        });
+    });
+
+    describe('applyRemoteEvent', () => {
+        let events: CacheEvent[];
+
+        beforeEach(() => {
+            events = [];
+            service.events.subscribe((event) => events.push(event));
+        });
+
+        it('should invalidate the memory cache and emit removals with the remote flag', async () => {
+            await service.applyRemoteEvent({ type: CacheEventType.Removed, key: 'key' });
+            expect(dependencies.cacheMemoryService.remove).toHaveBeenCalledWith('key');
+            expect(events).toEqual([{ type: CacheEventType.Removed, key: 'key', remote: true }]);
+        });
+
+        it('should clear the memory cache for cleared groups', async () => {
+            await service.applyRemoteEvent({ type: CacheEventType.GroupCleared, groupKey: 'movies' });
+            expect(dependencies.cacheMemoryService.clear).toHaveBeenCalled();
+            expect(events).toEqual([{ type: CacheEventType.GroupCleared, groupKey: 'movies', remote: true }]);
+        });
+
+        it('should read the data of saved items from storage', async () => {
+            dependencies.cacheStorageService.get.mockReturnValue(
+                Promise.resolve({ key: 'key', value: JSON.stringify('data'), type: 'string', expires: 1000 })
+            );
+            await service.applyRemoteEvent({ type: CacheEventType.Saved, key: 'key' });
+            expect(events).toEqual([{ type: CacheEventType.Saved, key: 'key', data: 'data', remote: true }]);
+        });
+
+        it('should not emit saved items which cannot be read', async () => {
+            dependencies.cacheStorageService.get.mockReturnValue(Promise.resolve(null));
+            await service.applyRemoteEvent({ type: CacheEventType.Saved, key: 'key' });
+            expect(events).toEqual([]);
         });
     });
 });
@@ -1,22 +1,109 @@
-import { Injectable } from '@angular/core';
-import { Observable, Subject } from 'rxjs';
-import { defer, from, throwError } from 'rxjs';
-import { share, catchError } from 'rxjs/operators';
+import { Inject, Injectable, NgZone } from '@angular/core';
+import { HttpResponse } from '@angular/common/http';
+import { Observable, Subject, Subscription } from 'rxjs';
+import { concat, defer, EMPTY, from, fromEvent, interval, merge, of, throwError } from 'rxjs';
+import {
+    share,
+    catchError,
+    exhaustMap,
+    filter,
+    finalize,
+    last,
+    map,
+    mapTo,
+    mergeMap,
+    scan,
+    startWith,
+    tap
+} from 'rxjs/operators';
 import { CacheStorageService } from '../cache-storage/cache-storage.service';
+import { CacheMemoryService } from '../cache-memory/cache-memory.service';
+import { CacheIndexService } from '../cache-index/cache-index.service';
+import { NetworkStatusProvider } from '../../providers/network-status.provider';
 import { StorageCacheItem } from '../../interfaces/cache-storage-item.interface';
+import { CacheConfig } from '../../interfaces/cache-config.interface';
+import { CONFIG } from '../../constants/config-token.constant';
+import { CacheLoadOptions } from '../../interfaces/cache-load-options.interface';
+import { CacheStrategy } from '../../enums/cache-strategy.enum';
+import { CacheEventType } from '../../enums/cache-event-type.enum';
+import { CacheEvent } from '../../interfaces/cache-event.interface';
 import { errorMessages } from '../../constants/error-messages.constant';
 import { isHttpResponse } from '../../helpers/is-http-response.helper';
 import { convertBlobToBase64 } from '../../helpers/convert-blob-to-base64.helper';
+import { arrayBufferToBase64 } from '../../helpers/array-buffer-to-base64.helper';
 import { decodeRawData } from '../../helpers/decode-raw-data.helper';
+import { encodeHttpHeaders } from '../../helpers/encode-http-headers.helper';
+import { getCacheControl } from '../../helpers/get-cache-control.helper';
+import { getHeadersTTL } from '../../helpers/get-headers-ttl.helper';
+import { toTags } from '../../helpers/to-tags.helper';
+import { getItemTags } from '../../helpers/get-item-tags.helper';
+import { getItemSize } from '../../helpers/get-item-size.helper';
+import { migrateItem } from '../../helpers/migrate-item.helper';
+import { isSnapshotItem } from '../../helpers/is-snapshot-item.helper';
+import { encryptValue } from '../../helpers/encrypt-value.helper';
+import { decryptValue } from '../../helpers/decrypt-value.helper';
+import { getEncryptionKey } from '../../helpers/get-encryption-key.helper';
+import { compressValue } from '../../helpers/compress-value.helper';
+import { isCompressionSupported } from '../../helpers/is-compression-supported.helper';
+import { schemaVersion } from '../../constants/migrations.constant';
+import { snapshotVersion } from '../../constants/snapshot-version.constant';
+import { builtInSerializers } from '../../constants/serializers.constant';
+import { CacheSerializer } from '../../interfaces/cache-serializer.interface';
+import { CacheSweeperConfig } from '../../interfaces/cache-sweeper-config.interface';
+import { CacheCounters } from '../../interfaces/cache-counters.interface';
+import { CacheStats } from '../../interfaces/cache-stats.interface';
+import { CacheSnapshot } from '../../interfaces/cache-snapshot.interface';
+import { CacheSnapshotOptions } from '../../interfaces/cache-snapshot-options.interface';
+import { CachePrefetchDescriptor } from '../../interfaces/cache-prefetch-descriptor.interface';
+import { CachePrefetchOptions } from '../../interfaces/cache-prefetch-options.interface';
+import { CachePrefetchProgress } from '../../interfaces/cache-prefetch-progress.interface';
+import { CacheNamespaceOptions } from '../../interfaces/cache-namespace-options.interface';
+import { CacheIndexEntry } from '../../interfaces/cache-index-entry.interface';
+import { CacheBatchEntry } from '../../interfaces/cache-batch-entry.interface';
+import { CacheBatchResult } from '../../interfaces/cache-batch-result.interface';
+import { CacheNamespace } from './cache-namespace';
 
 @Injectable()
 export class CacheService {
     private ttl: number = 60 * 60; // one hour
     private cacheEnabled: boolean = true;
     private invalidateOffline: boolean = false;
+    private pendingFactories = new Map<string, Promise<any>>();
+    private pendingObservables = new Map<string, Observable<any>>();
+    private eventsSubject = new Subject<CacheEvent>();
+    private loaded: Promise<void>;
+    private serializers: CacheSerializer[];
+    private sweeper?: Subscription;
+    private staleSources = new Map<string, () => void>();
+    private stats: CacheCounters = this.createCounters();
+    private groupStats: { [groupKey: string]: CacheCounters } = {};
 
-    constructor(private cacheStorage: CacheStorageService) {
-        this.loadCache();
+    /**
+     * Emits an event whenever items are saved, removed, expired or cleared.
+     */
+    public events: Observable<CacheEvent> = this.eventsSubject.asObservable();
+
+    constructor(
+        private cacheStorage: CacheStorageService,
+        private memoryCache: CacheMemoryService,
+        private cacheIndex: CacheIndexService,
+        private networkStatus: NetworkStatusProvider,
+        private zone: NgZone,
+        @Inject(CONFIG) private config: CacheConfig
+    ) {
+        this.serializers = [...(config.serializers || []), ...builtInSerializers];
+        this.loaded = this.loadCache();
+
+        if (config.refreshOnReconnect) {
+            this.networkStatus.online$.pipe(filter((online) => online)).subscribe(() => this.refreshStaleSources());
+        }
+    }
+
+    /**
+     * Resolves when the cache storage is created and the stored items are migrated.
+     */
+    public ready(): Promise<void> {
+        return this.loaded;
     }
 
     /**
@@ -41,40 +128,99 @@ export class CacheService {
         return (this.ttl = ttl);
     }
 
+    /**
+     * Register a serializer for a custom type.
+     * Registered serializers take precedence over the ones registered before.
+     * @param serializer The serializer
+     */
+    public registerSerializer(serializer: CacheSerializer): void {
+        this.serializers = [serializer, ...this.serializers.filter((s) => s.type !== serializer.type)];
+    }
+
     /**
      * Checks if the device is online.
      */
     public isOnline(): boolean {
-        return navigator.onLine;
+        return this.networkStatus.isOnline();
+    }
+
+    /**
+     * Applies an event received from another tab, then emits it with the remote flag.
+     * The memory cache is invalidated since the other tab changed the cache storage.
+     * @param event The event
+     */
+    public async applyRemoteEvent(event: CacheEvent): Promise<void> {
+        this.cacheIndex.reset();
+        if (event.key) {
+            this.memoryCache.remove(event.key);
+        } else {
+            this.memoryCache.clear();
+        }
+
+        if (event.type !== CacheEventType.Saved) {
+            this.eventsSubject.next({ ...event, remote: true });
+            return;
+        }
+
+        try {
+            const data = await this.decodeItem(await this.getRawItem(event.key));
+            this.eventsSubject.next({ ...event, data, remote: true });
+        } catch (error) {
+            // the item is not readable in this tab, e.g. with a storage which isn't shared between tabs
+        }
     }
 
     /**
      * Saves an item to the cache storage with the provided options.
      * @param key The unique key
      * @param data The data to store
-     * @param groupKey The group key
-     * @param ttl The TTL in seconds
+     * @param groupKey The group key or a list of tags
+     * @param ttl The TTL in seconds, defaults to the default TTL or the TTL of the response headers
      * @returns The saved data
      */
-    public saveItem(key: string, data: any, groupKey: string = 'none', ttl: number = this.ttl): Promise<any> {
+    public saveItem(key: string, data: any, groupKey: string | string[] = 'none', ttl?: number): Promise<any> {
         if (!this.cacheEnabled) {
             throw new Error(errorMessages.notEnabled);
         }
 
-        if (Blob.name === data.constructor.name) {
-            return this.saveBlobItem(key, data, groupKey, ttl);
+        return this.prepareItem(data, groupKey, ttl).then((item) =>
+            item ? this.storeItem(key, item, data) : undefined
+        );
+    }
+
+    /**
+     * Saves several items to the cache storage in a single batch.
+     * @param entries The keys, data and options of the items
+     * @returns A promise which resolves with the result of every item, in the order of the entries.
+     */
+    public async saveItems(entries: CacheBatchEntry[]): Promise<CacheBatchResult[]> {
+        if (!this.cacheEnabled) {
+            throw new Error(errorMessages.notEnabled);
         }
 
-        const expires = new Date().getTime() + ttl * 1000;
-        const type = isHttpResponse(data) ? 'response' : typeof data;
-        const value = JSON.stringify(data);
+        const prepared = await Promise.all(
+            entries.map(async (entry) => {
+                try {
+                    return { entry, item: await this.prepareItem(entry.data, entry.groupKey, entry.ttl) };
+                } catch (error) {
+                    return { entry, error };
+                }
+            })
+        );
+        const stored = await this.storeItems(
+            prepared
+                .filter(({ item, error }) => !error && item)
+                .map(({ entry, item }) => ({ key: entry.key, item, data: entry.data }))
+        );
 
-        return this.cacheStorage.set(key, {
-            value,
-            expires,
-            type,
-            groupKey
-        });
+        // items which must not be stored, e.g. responses with no-store, succeed without being written
+        return prepared.map(({ entry, item, error }) =>
+            error
+                ? { key: entry.key, success: false, error }
+                : item
+                ? stored.shift()
+                : { key: entry.key, success: true }
+        );
     }
 
     /**
@@ -87,7 +233,12 @@ export class CacheService {
             throw new Error(errorMessages.notEnabled);
         }
 
-        return this.cacheStorage.remove(key);
+        this.memoryCache.remove(key);
+        return this.cacheStorage.remove(key).then((result) => {
+            this.cacheIndex.remove([key]);
+            this.eventsSubject.next({ type: CacheEventType.Removed, key });
+            return result;
+        });
     }
 
     /**
@@ -102,12 +253,33 @@ export class CacheService {
         const regex = new RegExp(`^${pattern.split('*').join('.*')}$`);
         const items = await this.cacheStorage.all();
 
-        return Promise.all(
-            items
-                .map((item) => item.key)
-                .filter((key) => key && regex.test(key))
-                .map((key) => this.removeItem(key))
-        );
+        return this.removeKeys(items.map((item) => item.key).filter((key) => key && regex.test(key)));
+    }
+
+    /**
+     * Deletes several items from the cache storage in a single batch.
+     * When the batch fails, the items are removed one by one to find out which of them fail.
+     * @param keys The unique keys
+     * @returns A promise which resolves with the result of every key.
+     */
+    public async removeItemsByKeys(keys: string[]): Promise<CacheBatchResult[]> {
+        if (!this.cacheEnabled) {
+            throw new Error(errorMessages.notEnabled);
+        }
+
+        try {
+            await this.removeKeys(keys);
+            return keys.map((key) => ({ key, success: true }));
+        } catch (batchError) {
+            return Promise.all(
+                keys.map((key) =>
+                    this.removeItem(key).then(
+                        () => ({ key, success: true }),
+                        (error) => ({ key, success: false, error })
+                    )
+                )
+            );
+        }
     }
 
     /**
@@ -120,10 +292,15 @@ export class CacheService {
             throw new Error(errorMessages.notEnabled);
         }
 
+        const entry = this.memoryCache.get(key);
+        if (entry) {
+            return entry.item;
+        }
+
         try {
             const data = await this.cacheStorage.get(key);
             if (!!data) {
-                return data;
+                return await this.decryptItem(data);
             }
 
             throw new Error('');
@@ -134,10 +311,13 @@ export class CacheService {
 
     /**
      * Gets all items from the cache without checking if they are expired.
+     * Like with getRawItem the values are decrypted, items which can't be decrypted keep their encrypted value and flag.
      * @returns A promise which will resove with all the items in the cache.
      */
-    public getRawItems(): Promise<StorageCacheItem[]> {
-        return this.cacheStorage.all();
+    public async getRawItems(): Promise<StorageCacheItem[]> {
+        const items = await this.cacheStorage.all();
+
+        return Promise.all(items.map((item) => this.decryptItem(item).catch(() => item)));
     }
 
     /**
@@ -163,76 +343,231 @@ export class CacheService {
             throw new Error(errorMessages.notEnabled);
         }
 
-        const data = await this.getRawItem(key);
+        const entry = this.memoryCache.get(key);
+        let data: StorageCacheItem;
+        try {
+            data = entry ? entry.item : await this.getRawItem(key);
+        } catch (error) {
+            this.recordStat('misses');
+            throw error;
+        }
 
-        if (data.expires < new Date().getTime() && (this.invalidateOffline || this.isOnline())) {
-            throw new Error(errorMessages.expired + key);
+        this.checkExpiry(key, data);
+        this.cacheIndex.touch([key]);
+
+        return this.readItem(key, data, !!entry);
+    }
+
+    /**
+     * Gets several items from the cache with expire check, reading the storage in a single batch.
+     * @param keys The unique keys
+     * @returns A promise which resolves with the result of every key, in the order of the keys.
+     */
+    public async getItems<T = any>(keys: string[]): Promise<CacheBatchResult<T>[]> {
+        if (!this.cacheEnabled) {
+            throw new Error(errorMessages.notEnabled);
         }
 
-        return decodeRawData(data);
+        const entries = keys.map((key) => this.memoryCache.get(key));
+        const missing = keys.filter((key, index) => !entries[index]);
+        const storedItems = missing.length ? await this.cacheStorage.getMany(missing) : [];
+        const accessed: string[] = [];
+
+        const results = await Promise.all(
+            keys.map(async (key, index): Promise<CacheBatchResult<T>> => {
+                const entry = entries[index];
+                let data: StorageCacheItem;
+                try {
+                    const storedItem = entry ? entry.item : storedItems[missing.indexOf(key)];
+                    if (!storedItem) {
+                        throw new Error(errorMessages.notFound + key);
+                    }
+
+                    data = entry ? entry.item : await this.decryptItem(storedItem);
+                } catch (error) {
+                    this.recordStat('misses');
+                    return { key, success: false, error };
+                }
+
+                try {
+                    this.checkExpiry(key, data);
+                    accessed.push(key);
+
+                    return { key, success: true, data: await this.readItem<T>(key, data, !!entry) };
+                } catch (error) {
+                    return { key, success: false, error };
+                }
+            })
+        );
+
+        this.cacheIndex.touch(accessed);
+
+        return results;
+    }
+
+    /**
+     * Observes an item in the cache.
+     * Emits the current data if it exists and hasn't expired, then the data of every later save.
+     * @param key The unique key
+     * @returns An observable which emits the data of the item.
+     */
+    public observeItem<T = any>(key: string): Observable<T> {
+        return defer(() => {
+            let updated = false;
+            const updates = this.events.pipe(
+                filter((event) => event.type === CacheEventType.Saved && event.key === key),
+                tap(() => (updated = true)),
+                map((event) => event.data as T)
+            );
+            // the current data is skipped when an update was saved before it was read
+            const current = from(this.getItem<T>(key)).pipe(
+                catchError(() => EMPTY),
+                filter(() => !updated)
+            );
+
+            return merge(updates, current);
+        });
+    }
+
+    /**
+     * Creates a typed slice of the cache.
+     * Its keys are prefixed with the name, and its TTL and group key are used by default.
+     * @param name The name of the namespace
+     * @param options The default TTL and group key of the namespace
+     * @returns The namespace.
+     */
+    public namespace<T = any>(name: string, options: CacheNamespaceOptions = {}): CacheNamespace<T> {
+        return new CacheNamespace<T>(this, name, options);
     }
 
     /**
      * Gets or sets an item in the cache storage
+     * Concurrent calls for the same key share a single pending factory.
      * @param key The unique key
      * @param factory The factory to update the value with if it's not present.
-     * @param groupKey The group key
+     * @param groupKey The group key or a list of tags
      * @param ttl The TTL in seconds.
      * @returns A promise which resolves with the data.
      */
-    public async getOrSetItem<T>(key: string, factory: () => Promise<T>, groupKey?: string, ttl?: number): Promise<T> {
-        let val: T;
-
+    public async getOrSetItem<T>(
+        key: string,
+        factory: () => Promise<T>,
+        groupKey?: string | string[],
+        ttl?: number
+    ): Promise<T> {
         try {
-            val = await this.getItem<T>(key);
+            return await this.getItem<T>(key);
         } catch (error) {
-            val = await factory();
-            await this.saveItem(key, val, groupKey, ttl);
+            if (!this.pendingFactories.has(key)) {
+                const pending = factory()
+                    .then(async (val) => {
+                        await this.saveItem(key, val, groupKey, ttl);
+                        return val;
+                    })
+                    .finally(() => this.pendingFactories.delete(key));
+
+                this.pendingFactories.set(key, pending);
+            }
+
+            return this.pendingFactories.get(key);
         }
+    }
+
+    /**
+     * Fills the cache ahead of time, items which are still fresh are skipped.
+     * The prefetch starts on subscription and is cancelled by unsubscribing.
+     * @param descriptors The keys with the factory, group key and TTL of their data
+     * @param options The number of factories which run at the same time, defaults to 4
+     * @returns An observable which emits the progress of the prefetch.
+     */
+    public prefetch(
+        descriptors: CachePrefetchDescriptor[],
+        { concurrency = 4 }: CachePrefetchOptions = {}
+    ): Observable<CachePrefetchProgress> {
+        const initial: CachePrefetchProgress = { total: descriptors.length, fetched: 0, skipped: 0, failed: 0 };
 
-        return val;
+        return from(descriptors).pipe(
+            mergeMap(
+                (descriptor) => this.prefetchItem(descriptor).pipe(map((result) => ({ key: descriptor.key, result }))),
+                concurrency
+            ),
+            scan((progress, { key, result }) => ({ ...progress, [result]: progress[result] + 1, key }), initial),
+            startWith(initial)
+        );
     }
 
     /**
      * Loads an item from the cache, if it's not there it will use the provided observable to set the value and return it.
+     * Concurrent loads for the same key share a single subscription to the observable.
      * @param key The unique key
      * @param observable The observable to provide the data if it's not present in the cache.
-     * @param groupKey The group key
+     * @param groupKey The group key or a list of tags
      * @param ttl The TTL in seconds
      * @returns An observable with the data from the cache or provided observable.
      */
-    public loadFromObservable<T = any>(key: string, observable: any, groupKey?: string, ttl?: number): Observable<T> {
+    public loadFromObservable<T = any>(
+        key: string,
+        observable: any,
+        groupKey?: string | string[],
+        ttl?: number
+    ): Observable<T> {
         if (!this.cacheEnabled) {
             return observable;
         }
 
-        observable = observable.pipe(share());
-
         return defer(() => {
             return from(this.getItem(key)).pipe(
-                catchError((e) => {
-                    observable.subscribe(
-                        (res) => {
-                            return this.saveItem(key, res, groupKey, ttl);
-                        },
-                        (error) => {
-                            return throwError(error);
-                        }
-                    );
-
-                    return observable;
-                })
+                tap(() => this.addSourceIfStale(key, observable, groupKey, ttl)),
+                catchError(() => this.getPendingObservable<T>(key, observable, groupKey, ttl))
             );
         });
     }
 
+    /**
+     * Loads an item using the provided caching strategy, see CacheStrategy for the emissions of each strategy.
+     * Concurrent loads for the same key share a single subscription to the observable.
+     * @param key The unique key
+     * @param observable The observable to provide the data.
+     * @param options The strategy, group key, TTL and meta key, the strategy defaults to cache first.
+     * @returns An observable which will emit the data.
+     */
+    public load<T = any>(key: string, observable: Observable<T>, options: CacheLoadOptions = {}): Observable<T> {
+        if (!this.cacheEnabled) {
+            return observable;
+        }
+
+        const { strategy = CacheStrategy.CacheFirst, groupKey, ttl, metaKey } = options;
+        const network = defer(() => this.getPendingObservable<T>(key, observable, groupKey, ttl));
+
+        switch (strategy) {
+            case CacheStrategy.NetworkOnly:
+                return network;
+            case CacheStrategy.CacheOnly:
+                return this.loadCachedItem<T>(key, false, metaKey);
+            case CacheStrategy.NetworkFirst:
+                return network.pipe(
+                    catchError((error) =>
+                        this.loadCachedItem<T>(key, true, metaKey).pipe(catchError(() => throwError(error)))
+                    )
+                );
+            case CacheStrategy.StaleWhileRevalidate:
+                return concat(this.loadCachedItem<T>(key, true, metaKey).pipe(catchError(() => EMPTY)), network);
+            default:
+                return this.loadCachedItem<T>(key, false, metaKey).pipe(
+                    tap(() => this.addSourceIfStale(key, observable, groupKey, ttl)),
+                    catchError(() => network)
+                );
+        }
+    }
+
     /**
      * Loads an item from cache regardless of expiry.
      * If the delay type is set to expired it will only get data from the observable when the item is expired.
      * If the delay type is set to all it will always get data from the observable.
+     * @deprecated Use load with a CacheStrategy instead.
      * @param key The unique key
      * @param observable The observable with data.
-     * @param groupKey The group key
+     * @param groupKey The group key or a list of tags
      * @param ttl The TTL in seconds
      * @param delayType The delay type, defaults to expired.
      * @param metaKey The property on T to which to assign meta data.
@@ -241,9 +576,9 @@ export class CacheService {
     public loadFromDelayedObservable<T = any>(
         key: string,
         observable: Observable<T>,
-        groupKey?: string,
+        groupKey?: string | string[],
         ttl: number = this.ttl,
-        delayType: string = 'expired',
+        delayType: 'expired' | 'all' = 'expired',
         metaKey?: string
     ): Observable<T> {
         if (!this.cacheEnabled) {
@@ -251,9 +586,10 @@ export class CacheService {
         }
 
         const observableSubject = new Subject<T>();
+        const source = observable;
         observable = observable.pipe(share());
 
-        const subscribeOrigin = () => {
+        const subscribeOrigin = (stale = false) => {
             observable.subscribe(
                 (res) => {
                     this.saveItem(key, res, groupKey, ttl);
@@ -261,6 +597,9 @@ export class CacheService {
                     observableSubject.complete();
                 },
                 (err) => {
+                    if (stale) {
+                        this.addStaleSource(key, source, groupKey, ttl);
+                    }
                     observableSubject.error(err);
                 },
                 () => {
@@ -280,19 +619,19 @@ export class CacheService {
                 if (delayType === 'all') {
                     subscribeOrigin();
                 } else {
+                    this.addSourceIfStale(key, source, groupKey, ttl);
                     observableSubject.complete();
                 }
             })
             .catch((e) => {
-                this.getRawItem(key)
-                    .then(async (res) => {
-                        const result = await decodeRawData(res);
+                this.getStaleItem(key)
+                    .then((result) => {
                         if (metaKey) {
                             result[metaKey] = result[metaKey] || {};
                             result[metaKey].fromCache = true;
                         }
                         observableSubject.next(result);
-                        subscribeOrigin();
+                        subscribeOrigin(true);
                     })
                     .catch(() => subscribeOrigin());
             });
@@ -309,7 +648,151 @@ export class CacheService {
             throw new Error(errorMessages.notEnabled);
         }
 
-        return this.resetDatabase();
+        return this.resetDatabase().then((result) => {
+            this.eventsSubject.next({ type: CacheEventType.ClearedAll });
+            return result;
+        });
+    }
+
+    /**
+     * Exports the cache items, with their original expiry and type, as a portable JSON document.
+     * Encrypted items are decrypted and binary values are encoded as base64.
+     * @param options Only exports the items of a group or the items with the provided keys
+     * @returns A promise which resolves with the snapshot.
+     */
+    public async exportSnapshot(options: CacheSnapshotOptions = {}): Promise<CacheSnapshot> {
+        if (!this.cacheEnabled) {
+            throw new Error(errorMessages.notEnabled);
+        }
+
+        const { groupKey, keys } = options;
+        const items = (await this.cacheStorage.all()).filter(
+            (item) => (!groupKey || getItemTags(item).includes(groupKey)) && (!keys || keys.includes(item.key))
+        );
+
+        return {
+            version: snapshotVersion,
+            createdAt: new Date().getTime(),
+            items: await Promise.all(items.map((item) => this.toPortableItem(item)))
+        };
+    }
+
+    /**
+     * Imports the items of a snapshot created with exportSnapshot.
+     * @param snapshot The snapshot or its JSON string
+     * @param mode With 'merge' the imported items only replace existing items which expire earlier,
+     * with 'overwrite' the cache is cleared before importing.
+     * @returns A promise which resolves with the number of imported items.
+     */
+    public async importSnapshot(
+        snapshot: CacheSnapshot | string,
+        mode: 'merge' | 'overwrite' = 'merge'
+    ): Promise<number> {
+        if (!this.cacheEnabled) {
+            throw new Error(errorMessages.notEnabled);
+        }
+
+        const { version, items } = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot;
+        if (
+            typeof version !== 'number' ||
+            version > snapshotVersion ||
+            !Array.isArray(items) ||
+            !items.every((item) => isSnapshotItem(item))
+        ) {
+            throw new Error(errorMessages.invalidSnapshot);
+        }
+
+        // every item is decoded before the cache is cleared, so that an invalid snapshot leaves the cache untouched
+        let decodedItems: { item: StorageCacheItem; data: any }[];
+        try {
+            decodedItems = await Promise.all(
+                items
+                    .map((item: StorageCacheItem) => migrateItem(item))
+                    .filter((item: StorageCacheItem | null) => !!item)
+                    .map(async (item: StorageCacheItem) => ({ item, data: await this.decodeItem(item) }))
+            );
+        } catch (error) {
+            throw new Error(errorMessages.invalidSnapshot);
+        }
+
+        if (mode === 'overwrite') {
+            await this.clearAll();
+        }
+
+        const existingItems = mode === 'merge' ? await this.cacheStorage.all() : [];
+        const results = await this.storeItems(
+            decodedItems
+                .filter(
+                    ({ item }) =>
+                        !existingItems.some((existing) => existing.key === item.key && existing.expires >= item.expires)
+                )
+                .map(({ item: { key, ...item }, data }) => ({ key, item, data }))
+        );
+
+        return results.filter((result) => result.success).length;
+    }
+
+    /**
+     * Gets the cache statistics since the cache was loaded or the statistics were reset.
+     * The counters are broken down by group key.
+     * @returns A promise which resolves with a snapshot of the statistics.
+     */
+    public async getStats(): Promise<CacheStats> {
+        const items = await this.cacheStorage.all();
+        const groups = Object.keys(this.groupStats).reduce(
+            (result, groupKey) => ({ ...result, [groupKey]: { ...this.groupStats[groupKey] } }),
+            {}
+        );
+
+        return {
+            ...this.stats,
+            entries: items.length,
+            bytes: items.reduce((total, item) => total + getItemSize(item), 0),
+            groups
+        };
+    }
+
+    /**
+     * Resets the counters of the cache statistics.
+     */
+    public resetStats(): void {
+        this.stats = this.createCounters();
+        this.groupStats = {};
+    }
+
+    /**
+     * Starts removing expired items in the background.
+     * Items are swept on an interval and when the app resumes or becomes visible.
+     * The triggers are observed outside of the Angular zone, so that the app still becomes stable between sweeps.
+     * @param config The sweeper options, defaults to the sweeper config.
+     */
+    public startSweeper(config: CacheSweeperConfig = this.getSweeperConfig()): void {
+        this.stopSweeper();
+
+        const { interval: period = 5 * 60 } = config;
+        const triggers = merge(
+            interval(period * 1000),
+            fromEvent(document, 'resume'),
+            fromEvent(document, 'visibilitychange').pipe(filter(() => document.visibilityState === 'visible'))
+        );
+
+        this.zone.runOutsideAngular(() => {
+            this.sweeper = triggers
+                .pipe(
+                    exhaustMap(() => from(this.zone.run(() => this.sweepExpired(config))).pipe(catchError(() => EMPTY)))
+                )
+                .subscribe();
+        });
+    }
+
+    /**
+     * Stops the background removal of expired items.
+     */
+    public stopSweeper(): void {
+        if (this.sweeper) {
+            this.sweeper.unsubscribe();
+            this.sweeper = undefined;
+        }
     }
 
     /**
@@ -328,12 +811,16 @@ export class CacheService {
 
         const items = await this.cacheStorage.all();
         const datetime = new Date().getTime();
+        const expiredItems = items.filter((item) => item.expires < datetime);
+
+        expiredItems.forEach((item) => this.eventsSubject.next({ type: CacheEventType.Expired, key: item.key }));
 
-        return Promise.all(items.filter((item) => item.expires < datetime).map((item) => this.removeItem(item.key)));
+        return this.removeKeys(expiredItems.map((item) => item.key));
     }
 
     /**
      * Removes all item with specified group
+     * Items with multiple tags are removed when one of them is the group key.
      * @param groupKey The group key
      * @returns A promise which resolves when all the items in the group have been cleared.
      */
@@ -342,13 +829,31 @@ export class CacheService {
             throw new Error(errorMessages.notEnabled);
         }
 
-        const items = await this.cacheStorage.all();
+        const result = await this.removeTaggedItems([groupKey], 'any');
+        this.eventsSubject.next({ type: CacheEventType.GroupCleared, groupKey });
 
-        return Promise.all(items.filter((item) => item.groupKey === groupKey).map((item) => this.removeItem(item.key)));
+        return result;
     }
 
     /**
-     * Creates the cache storage.
+     * Removes all items with the specified tags
+     * @param tags The tags
+     * @param match Whether items need any or all of the tags to be removed, defaults to any.
+     * @returns A promise which resolves when all the tagged items have been cleared.
+     */
+    async clearByTags(tags: string[], match: 'any' | 'all' = 'any'): Promise<any> {
+        if (!this.cacheEnabled) {
+            throw new Error(errorMessages.notEnabled);
+        }
+
+        const result = await this.removeTaggedItems(tags, match);
+        this.eventsSubject.next({ type: CacheEventType.GroupCleared, tags });
+
+        return result;
+    }
+
+    /**
+     * Creates the cache storage and migrates the stored items.
      * If it fails it will provide and error message.
      */
     private async loadCache(): Promise<void> {
@@ -361,50 +866,697 @@ export class CacheService {
         } catch (error) {
             this.cacheEnabled = false;
             console.error(errorMessages.initialization, error);
+            return;
+        }
+
+        try {
+            await this.migrateItems();
+        } catch (error) {
+            console.error(errorMessages.migration, error);
+        }
+
+        if (this.config.sweeper) {
+            this.startSweeper();
+        }
+    }
+
+    /**
+     * Upgrades the stored items to the current storage format.
+     * Items which can't be upgraded or were saved with another data version are removed.
+     */
+    private async migrateItems(): Promise<any> {
+        const items = await this.cacheStorage.all();
+
+        return Promise.all(
+            items.filter((item) => this.isOutdated(item)).map((item) => this.migrateStoredItem(item.key))
+        );
+    }
+
+    /**
+     * Upgrades or removes an outdated item.
+     * The item is read again first, since it may have been saved while the other items were migrated.
+     * @param key The unique key
+     */
+    private async migrateStoredItem(key: string): Promise<any> {
+        const item: StorageCacheItem = await this.cacheStorage.get(key);
+        if (!item || !this.isOutdated(item)) {
+            return;
         }
+
+        const { dataVersion } = this.config;
+        const migrated = dataVersion !== undefined && item.dataVersion !== dataVersion ? null : migrateItem(item);
+        if (!migrated) {
+            return this.removeItem(key);
+        }
+
+        const { key: migratedKey, ...value } = migrated;
+        return this.cacheStorage.set(migratedKey, value);
+    }
+
+    /**
+     * Checks if an item has an older storage format or was saved with another data version.
+     * @param item The stored item
+     */
+    private isOutdated(item: StorageCacheItem): boolean {
+        const { dataVersion } = this.config;
+
+        return item.version !== schemaVersion || (dataVersion !== undefined && item.dataVersion !== dataVersion);
+    }
+
+    /**
+     * Gets the pending observable for the key, or shares the provided observable until it completes.
+     * Every emission is saved to the cache.
+     * @param key The unique key
+     * @param observable The observable to provide the data.
+     * @param groupKey The group key or a list of tags
+     * @param ttl The TTL in seconds
+     * @returns The shared observable.
+     */
+    private getPendingObservable<T>(
+        key: string,
+        observable: Observable<T>,
+        groupKey?: string | string[],
+        ttl?: number
+    ): Observable<T> {
+        if (!this.pendingObservables.has(key)) {
+            const pending = observable.pipe(
+                tap((res) => this.saveItem(key, res, groupKey, ttl)),
+                finalize(() => {
+                    if (this.pendingObservables.get(key) === pending) {
+                        this.pendingObservables.delete(key);
+                    }
+                }),
+                share()
+            );
+
+            this.pendingObservables.set(key, pending);
+        }
+
+        return this.pendingObservables.get(key);
+    }
+
+    /**
+     * Loads an item from the cache as an observable.
+     * @param key The unique key
+     * @param ignoreExpiry Whether expired data should be emitted
+     * @param metaKey The property on T to which to assign meta data.
+     * @returns An observable which emits the cached data or errors when it isn't available.
+     */
+    private loadCachedItem<T>(key: string, ignoreExpiry: boolean, metaKey?: string): Observable<T> {
+        return defer(() => (ignoreExpiry ? this.getStaleItem<T>(key) : this.getItem<T>(key))).pipe(
+            map((data) => {
+                if (metaKey) {
+                    data[metaKey] = data[metaKey] || {};
+                    data[metaKey].fromCache = true;
+                }
+
+                return data;
+            })
+        );
     }
 
     /**
      * Resets the storage back to being empty.
      */
     private async resetDatabase(): Promise<any> {
+        this.memoryCache.clear();
         const items = await this.cacheStorage.all();
-        return Promise.all(items.map((item) => this.removeItem(item.key)));
+        return this.removeKeys(items.map((item) => item.key));
     }
 
     /**
-     * Saves a blob item to the cache storage with the provided options.
-     * @param key The unique key
+     * Encodes data into a cache item with the provided options.
+     * @param data The data to store
+     * @param groupKey The group key or a list of tags
+     * @param ttl The TTL in seconds, defaults to the default TTL or the TTL of the response headers
+     * @returns The cache item without its key, or null if the data must not be stored.
+     */
+    private async prepareItem(
+        data: any,
+        groupKey: string | string[] = 'none',
+        ttl?: number
+    ): Promise<Omit<StorageCacheItem, 'key'> | null> {
+        if (Blob.name === data.constructor.name) {
+            return this.prepareBlobItem(data, groupKey, ttl);
+        }
+
+        if (data instanceof ArrayBuffer && this.canStoreBinary()) {
+            return this.buildItem(data, 'arraybuffer', groupKey, ttl);
+        }
+
+        if (ttl === undefined && this.config.httpCacheHeaders && data instanceof HttpResponse) {
+            if (getCacheControl(data.headers).has('no-store')) {
+                return null;
+            }
+
+            ttl = this.clampHeadersTTL(getHeadersTTL(data.headers));
+        }
+
+        const serializer = this.serializers.find((s) => s.test(data));
+        const type = serializer ? serializer.type : isHttpResponse(data) ? 'response' : typeof data;
+        const value = JSON.stringify(serializer ? serializer.encode(data) : data, encodeHttpHeaders);
+
+        return this.buildItem(value, type, groupKey, ttl);
+    }
+
+    /**
+     * Encodes a blob into a cache item with the provided options.
      * @param blob The blob to store
-     * @param groupKey The group key
+     * @param groupKey The group key or a list of tags
      * @param ttl The TTL in seconds
-     * @returns The saved data
+     * @returns The cache item without its key.
      */
-    private async saveBlobItem(
-        key: string,
+    private async prepareBlobItem(
         blob: any,
-        groupKey: string = 'none',
+        groupKey: string | string[] = 'none',
         ttl: number = this.ttl
-    ): Promise<any> {
-        if (!this.cacheEnabled) {
-            throw new Error(errorMessages.notEnabled);
+    ): Promise<Omit<StorageCacheItem, 'key'>> {
+        try {
+            const value = this.canStoreBinary() ? blob : JSON.stringify(await convertBlobToBase64(blob));
+
+            return this.buildItem(value, blob.type, groupKey, ttl);
+        } catch (error) {
+            throw new Error(error);
         }
+    }
 
-        const expires = new Date().getTime() + ttl * 1000;
-        const type = blob.type;
+    /**
+     * Removes all items which match the tags.
+     * @param tags The tags
+     * @param match Whether items need any or all of the tags
+     * @returns A promise which resolves when the items are removed.
+     */
+    private async removeTaggedItems(tags: string[], match: 'any' | 'all'): Promise<any> {
+        const items = await this.cacheStorage.all();
+        const matches = items.filter((item) => {
+            const itemTags = getItemTags(item);
+            return match === 'all'
+                ? tags.every((tag) => itemTags.includes(tag))
+                : tags.some((tag) => itemTags.includes(tag));
+        });
+
+        return this.removeKeys(matches.map((item) => item.key));
+    }
+
+    /**
+     * Checks if a storage limit is configured.
+     */
+    private hasStorageLimit(): boolean {
+        return !!this.config.maxEntries || !!this.config.maxBytes;
+    }
+
+    /**
+     * Removes the least recently used items until there is room for the new items.
+     * @param keys The unique keys of the new items
+     * @param size The approximate size of the new items in bytes
+     * @returns A promise which resolves when the items are removed.
+     */
+    private async evictItems(keys: string[], size: number): Promise<any> {
+        if (!this.hasStorageLimit()) {
+            return;
+        }
+
+        const { maxEntries, maxBytes } = this.config;
+        const items = (await this.cacheIndex.getEntries()).filter((item) => !keys.includes(item.key));
+
+        let entries = items.length + new Set(keys).size;
+        let bytes = items.reduce((total, item) => total + item.size, size);
+        const evicted: CacheIndexEntry[] = [];
+
+        while (items.length && ((maxEntries && entries > maxEntries) || (maxBytes && bytes > maxBytes))) {
+            const item = items.shift();
+            this.recordStat('evictions', item.groupKey);
+            evicted.push(item);
+            entries--;
+            bytes -= item.size;
+        }
+
+        return this.removeKeys(evicted.map((item) => item.key));
+    }
+
+    /**
+     * Deletes items from the memory cache and the cache storage in a single batch.
+     * @param keys The unique keys
+     * @returns A promise which resolves when the items are removed.
+     */
+    private async removeKeys(keys: string[]): Promise<void> {
+        if (!keys.length) {
+            return;
+        }
+
+        keys.forEach((key) => this.memoryCache.remove(key));
+        await this.cacheStorage.removeMany(keys);
+        this.cacheIndex.remove(keys);
+        keys.forEach((key) => this.eventsSubject.next({ type: CacheEventType.Removed, key }));
+    }
+
+    /**
+     * Fetches and saves an item, unless it is still fresh.
+     * @param descriptor The key with the factory, group key and TTL of its data
+     * @returns An observable which emits the result of the prefetch.
+     */
+    private prefetchItem({
+        key,
+        factory,
+        groupKey,
+        ttl
+    }: CachePrefetchDescriptor): Observable<'fetched' | 'skipped' | 'failed'> {
+        return defer(() => this.isFresh(key)).pipe(
+            mergeMap((fresh) =>
+                fresh
+                    ? of('skipped' as const)
+                    : defer(factory).pipe(
+                          last(),
+                          mergeMap((data) => this.saveItem(key, data, groupKey, ttl)),
+                          mapTo('fetched' as const)
+                      )
+            ),
+            catchError(() => of('failed' as const))
+        );
+    }
 
+    /**
+     * Checks if an item exists and has not expired.
+     * @param key The unique key
+     */
+    private async isFresh(key: string): Promise<boolean> {
         try {
-            const base64data = await convertBlobToBase64(blob);
-            const value = JSON.stringify(base64data);
-
-            return this.cacheStorage.set(key, {
-                value,
-                expires,
-                type,
-                groupKey
-            });
+            const item = await this.getRawItem(key);
+
+            return item.expires >= new Date().getTime();
         } catch (error) {
-            throw new Error(error);
+            return false;
+        }
+    }
+
+    /**
+     * Converts a stored item to an item which can be exported as JSON.
+     * @param item The stored item
+     * @returns The decrypted item, binary values are encoded like on storages without binary support.
+     */
+    private async toPortableItem(item: StorageCacheItem): Promise<StorageCacheItem> {
+        const portable = await this.decryptItem(item);
+
+        if (portable.value instanceof Blob) {
+            return { ...portable, value: JSON.stringify(await convertBlobToBase64(portable.value)) };
+        }
+
+        if (portable.value instanceof ArrayBuffer) {
+            return { ...portable, value: JSON.stringify(arrayBufferToBase64(portable.value)) };
+        }
+
+        return portable;
+    }
+
+    /**
+     * Gets an item from the cache, even if it has expired.
+     * @param key The unique key
+     * @returns The decoded data.
+     */
+    private async getStaleItem<T = any>(key: string): Promise<T> {
+        let data: StorageCacheItem;
+        try {
+            data = await this.getRawItem(key);
+        } catch (error) {
+            this.recordStat('misses');
+            throw error;
+        }
+
+        this.recordStat(data.expires < new Date().getTime() ? 'stale' : 'hits', data.groupKey);
+
+        return this.decodeItem(data);
+    }
+
+    /**
+     * Throws if the item is expired and has to be invalidated, and records the read.
+     * @param key The unique key
+     * @param item The raw cache item
+     */
+    private checkExpiry(key: string, item: StorageCacheItem): void {
+        const expired = item.expires < new Date().getTime();
+        if (expired && (this.invalidateOffline || this.isOnline())) {
+            this.recordStat('misses', item.groupKey);
+            this.eventsSubject.next({ type: CacheEventType.Expired, key });
+            throw new Error(errorMessages.expired + key);
+        }
+
+        this.recordStat(expired ? 'stale' : 'hits', item.groupKey);
+    }
+
+    /**
+     * Decodes the data of an item and keeps the item in the memory cache.
+     * The data is decoded on every read, so that changes made by callers never reach the cached item.
+     * @param key The unique key
+     * @param item The raw cache item
+     * @param fromMemory Whether the item was read from the memory cache
+     * @returns The decoded data.
+     */
+    private async readItem<T = any>(key: string, item: StorageCacheItem, fromMemory: boolean): Promise<T> {
+        if (!fromMemory) {
+            this.memoryCache.set(key, item);
+        }
+
+        const result = await this.decodeItem(item);
+
+        return result instanceof ArrayBuffer ? result.slice(0) : result;
+    }
+
+    /**
+     * Decodes the data of an item, decoding failures are recorded as errors.
+     * @param item The cache item
+     * @returns The decoded data.
+     */
+    private async decodeItem(item: StorageCacheItem): Promise<any> {
+        try {
+            return await decodeRawData(item, this.serializers);
+        } catch (error) {
+            this.recordStat('errors', item.groupKey);
+            throw error;
+        }
+    }
+
+    /**
+     * Creates a set of counters for the statistics.
+     */
+    private createCounters(): CacheCounters {
+        return { hits: 0, misses: 0, stale: 0, writes: 0, evictions: 0, errors: 0 };
+    }
+
+    /**
+     * Increments a counter of the statistics.
+     * @param counter The counter
+     * @param groupKey The group key of the item, if it is known
+     */
+    private recordStat(counter: keyof CacheCounters, groupKey?: string): void {
+        this.stats[counter]++;
+
+        if (groupKey) {
+            this.groupStats[groupKey] = this.groupStats[groupKey] || this.createCounters();
+            this.groupStats[groupKey][counter]++;
+        }
+    }
+
+    /**
+     * Remembers the source of a stale item, so that it is refreshed when the device reconnects.
+     * @param key The unique key
+     * @param observable The source of the item
+     * @param groupKey The group key or a list of tags
+     * @param ttl The TTL in seconds
+     */
+    private addStaleSource<T>(
+        key: string,
+        observable: Observable<T>,
+        groupKey?: string | string[],
+        ttl?: number
+    ): void {
+        if (!this.config.refreshOnReconnect) {
+            return;
+        }
+
+        this.staleSources.set(key, () =>
+            this.getPendingObservable(key, observable, groupKey, ttl).subscribe({
+                error: () => this.addStaleSource(key, observable, groupKey, ttl)
+            })
+        );
+    }
+
+    /**
+     * Remembers the source of an item when its expired data was served while the device is offline.
+     * @param key The unique key
+     * @param observable The source of the item
+     * @param groupKey The group key or a list of tags
+     * @param ttl The TTL in seconds
+     */
+    private async addSourceIfStale<T>(
+        key: string,
+        observable: Observable<T>,
+        groupKey?: string | string[],
+        ttl?: number
+    ): Promise<void> {
+        if (!this.config.refreshOnReconnect || this.isOnline() || (await this.isFresh(key))) {
+            return;
         }
+
+        this.addStaleSource(key, observable, groupKey, ttl);
+    }
+
+    /**
+     * Refreshes the stale items which were served or whose source failed while the device was offline.
+     */
+    private refreshStaleSources(): void {
+        const refreshes = Array.from(this.staleSources.values());
+        this.staleSources.clear();
+
+        refreshes.forEach((refresh) => refresh());
+    }
+
+    /**
+     * Gets the sweeper options from the config.
+     */
+    private getSweeperConfig(): CacheSweeperConfig {
+        return typeof this.config.sweeper === 'object' ? this.config.sweeper : {};
+    }
+
+    /**
+     * Removes the expired items in batches, yielding to the UI thread between batches.
+     * The expired items are found with the index, so that the stored items aren't read on every sweep.
+     * @param config The sweeper options
+     */
+    private async sweepExpired({ batchSize = 20, sweepOffline = false }: CacheSweeperConfig): Promise<void> {
+        if (!this.cacheEnabled || (!sweepOffline && !this.isOnline())) {
+            return;
+        }
+
+        const datetime = new Date().getTime();
+        const expiredItems = (await this.cacheIndex.getEntries()).filter((item) => item.expires < datetime);
+
+        for (let i = 0; i < expiredItems.length; i += batchSize) {
+            const batch = expiredItems.slice(i, i + batchSize);
+            batch.forEach((item) => this.eventsSubject.next({ type: CacheEventType.Expired, key: item.key }));
+
+            await this.removeKeys(batch.map((item) => item.key));
+            await new Promise((resolve) => setTimeout(resolve));
+        }
+    }
+
+    /**
+     * Checks if binary values can be stored without encoding them.
+     * Encrypted values are always encoded.
+     */
+    private canStoreBinary(): boolean {
+        return !!this.cacheStorage.supportsBinary && !this.config.encryptionKey;
+    }
+
+    /**
+     * Clamps a TTL read from the response headers to the configured limits.
+     * @param ttl The TTL in seconds
+     * @returns The clamped TTL, or undefined if the headers don't define one.
+     */
+    private clampHeadersTTL(ttl?: number): number | undefined {
+        const { httpCacheHeaders } = this.config;
+        if (ttl === undefined || typeof httpCacheHeaders !== 'object') {
+            return ttl;
+        }
+
+        const { minTTL = 0, maxTTL = Infinity } = httpCacheHeaders;
+
+        return Math.min(Math.max(ttl, minTTL), maxTTL);
+    }
+
+    /**
+     * Builds a cache item with the provided options.
+     * @param value The encoded value
+     * @param type The type of the data
+     * @param groupKey The group key or a list of tags
+     * @param ttl The TTL in seconds
+     * @returns The cache item without its key.
+     */
+    private buildItem(
+        value: string | Blob | ArrayBuffer,
+        type: string,
+        groupKey: string | string[] = 'none',
+        ttl: number = this.ttl
+    ): Omit<StorageCacheItem, 'key'> {
+        const tags = toTags(groupKey);
+
+        return {
+            value,
+            expires: new Date().getTime() + ttl * 1000,
+            type,
+            groupKey: tags[0] || 'none',
+            tags,
+            lastAccess: new Date().getTime(),
+            size: typeof value === 'string' ? value.length : value instanceof Blob ? value.size : value.byteLength,
+            version: schemaVersion,
+            dataVersion: this.config.dataVersion
+        };
+    }
+
+    /**
+     * Encrypts an item if needed and writes it to the cache storage.
+     * @param key The unique key
+     * @param item The cache item
+     * @param data The data of the item
+     * @returns The saved data
+     */
+    private async storeItem(key: string, item: Omit<StorageCacheItem, 'key'>, data: any): Promise<any> {
+        let result: any;
+        let storedItem: Omit<StorageCacheItem, 'key'>;
+        try {
+            storedItem = await this.encodeItem(item);
+
+            await this.evictItems([key], storedItem.size);
+            result = await this.cacheStorage.set(key, storedItem);
+        } catch (error) {
+            this.recordStat('errors', item.groupKey);
+            throw error;
+        }
+
+        this.onItemStored(key, item, storedItem, data);
+
+        return result;
+    }
+
+    /**
+     * Compresses and encrypts items if needed and writes them to the cache storage in a single batch.
+     * When the batch fails, the items are written one by one to find out which of them fail.
+     * @param entries The keys, cache items and data of the items
+     * @returns The result of every item, in the order of the entries.
+     */
+    private async storeItems(
+        entries: { key: string; item: Omit<StorageCacheItem, 'key'>; data: any }[]
+    ): Promise<CacheBatchResult[]> {
+        if (!entries.length) {
+            return [];
+        }
+
+        const encoded = await Promise.all(
+            entries.map(async (entry) => {
+                try {
+                    return { ...entry, storedItem: await this.encodeItem(entry.item), error: undefined };
+                } catch (error) {
+                    this.recordStat('errors', entry.item.groupKey);
+                    return { ...entry, storedItem: undefined, error };
+                }
+            })
+        );
+
+        const valid = encoded.filter((entry) => !entry.error);
+        try {
+            await this.evictItems(
+                valid.map((entry) => entry.key),
+                valid.reduce((total, entry) => total + entry.storedItem.size, 0)
+            );
+            await this.cacheStorage.setMany(valid.map((entry) => ({ key: entry.key, value: entry.storedItem })));
+            valid.forEach((entry) => this.onItemStored(entry.key, entry.item, entry.storedItem, entry.data));
+        } catch (batchError) {
+            await Promise.all(
+                valid.map(async (entry) => {
+                    try {
+                        await this.cacheStorage.set(entry.key, entry.storedItem);
+                        this.onItemStored(entry.key, entry.item, entry.storedItem, entry.data);
+                    } catch (error) {
+                        this.recordStat('errors', entry.item.groupKey);
+                        entry.error = error;
+                    }
+                })
+            );
+        }
+
+        return encoded.map(({ key, error }) => (error ? { key, success: false, error } : { key, success: true }));
+    }
+
+    /**
+     * Compresses and encrypts an item if needed.
+     * @param item The cache item
+     * @returns The item as it is written to the cache storage.
+     */
+    private async encodeItem(item: Omit<StorageCacheItem, 'key'>): Promise<Omit<StorageCacheItem, 'key'>> {
+        return this.encryptItem(await this.compressItem(item));
+    }
+
+    /**
+     * Records the write of an item, keeps it in the memory cache and the index, and emits the saved event.
+     * Binary values are copied, so that changes made by the caller never reach the cached item.
+     * @param key The unique key
+     * @param item The cache item
+     * @param storedItem The item as it was written to the cache storage
+     * @param data The data of the item
+     */
+    private onItemStored(
+        key: string,
+        item: Omit<StorageCacheItem, 'key'>,
+        storedItem: Omit<StorageCacheItem, 'key'>,
+        data: any
+    ): void {
+        this.recordStat('writes', item.groupKey);
+        this.cacheIndex.set({ key, ...storedItem });
+
+        const value = item.value instanceof ArrayBuffer ? item.value.slice(0) : item.value;
+        this.memoryCache.set(key, { key, ...item, value });
+        this.eventsSubject.next({ type: CacheEventType.Saved, key, groupKey: item.groupKey, tags: item.tags, data });
+    }
+
+    /**
+     * Compresses the value of an item when it exceeds the compression threshold.
+     * Items which are already compressed, e.g. imported from a snapshot, are kept as is.
+     * @param item The cache item
+     * @returns The item with its compressed value, or the original item.
+     */
+    private async compressItem<T extends Partial<StorageCacheItem>>(item: T): Promise<T> {
+        const threshold = this.config.compressionThreshold;
+        if (
+            threshold === undefined ||
+            item.compressed ||
+            typeof item.value !== 'string' ||
+            item.value.length < threshold ||
+            !isCompressionSupported()
+        ) {
+            return item;
+        }
+
+        const value = await compressValue(item.value);
+        if (value.length >= item.value.length) {
+            return item;
+        }
+
+        return { ...item, value, size: value.length, compressed: true };
+    }
+
+    /**
+     * Encrypts the value of an item when an encryption key is configured.
+     * @param item The cache item
+     * @returns The item to store.
+     */
+    private async encryptItem<T extends Partial<StorageCacheItem>>(item: T): Promise<T> {
+        const encryptionKey = await getEncryptionKey(this.config);
+        if (!encryptionKey) {
+            return item;
+        }
+
+        const value = await encryptValue(item.value, encryptionKey);
+
+        return { ...item, value, size: value.length, encrypted: true };
+    }
+
+    /**
+     * Decrypts the value of an encrypted item.
+     * @param item The stored item
+     * @returns The item with its plain value.
+     */
+    private async decryptItem(item: StorageCacheItem): Promise<StorageCacheItem> {
+        if (!item.encrypted) {
+            return item;
+        }
+
+        const encryptionKey = await getEncryptionKey(this.config);
+        if (!encryptionKey) {
+            throw new Error(errorMessages.noEncryptionKey);
+        }
+
+        const { encrypted, ...decrypted } = item;
+        decrypted.value = await decryptValue(item.value, encryptionKey);
+
+        return decrypted;
     }
 }
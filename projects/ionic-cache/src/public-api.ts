@@ -1,2 +1,38 @@
 export * from './lib/services/cache/cache.service';
+export * from './lib/services/cache/cache-namespace';
+export * from './lib/services/cache-outbox/cache-outbox.service';
+export * from './lib/services/cache-sync/cache-sync.service';
+export * from './lib/interceptors/cache/cache.interceptor';
+export * from './lib/adapters/cache-storage.adapter';
+export * from './lib/adapters/ionic-storage.adapter';
+export * from './lib/adapters/local-storage.adapter';
+export * from './lib/adapters/memory-storage.adapter';
+export * from './lib/providers/network-status.provider';
+export * from './lib/providers/browser-network-status.provider';
+export * from './lib/constants/http-context-tokens.constant';
+export * from './lib/enums/cache-event-type.enum';
+export * from './lib/enums/cache-strategy.enum';
+export * from './lib/enums/cache-conflict-resolution.enum';
+export * from './lib/interfaces/cache-config.interface';
+export * from './lib/interfaces/cache-event.interface';
+export * from './lib/interfaces/cache-load-options.interface';
+export * from './lib/interfaces/cache-storage-entry.interface';
+export * from './lib/interfaces/cache-serializer.interface';
+export * from './lib/interfaces/http-cache-headers-config.interface';
+export * from './lib/interfaces/cache-sweeper-config.interface';
+export * from './lib/interfaces/cache-mutation.interface';
+export * from './lib/interfaces/cache-outbox-config.interface';
+export * from './lib/interfaces/cache-outbox-status.interface';
+export * from './lib/interfaces/cache-counters.interface';
+export * from './lib/interfaces/cache-stats.interface';
+export * from './lib/interfaces/cache-storage-item.interface';
+export * from './lib/interfaces/cache-snapshot.interface';
+export * from './lib/interfaces/cache-snapshot-options.interface';
+export * from './lib/interfaces/cache-prefetch-descriptor.interface';
+export * from './lib/interfaces/cache-prefetch-options.interface';
+export * from './lib/interfaces/cache-prefetch-progress.interface';
+export * from './lib/interfaces/cache-namespace-options.interface';
+export * from './lib/interfaces/cache-batch-entry.interface';
+export * from './lib/interfaces/cache-batch-result.interface';
 export * from './lib/cache.module';
+export * from './lib/provide-ionic-cache';